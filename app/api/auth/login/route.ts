@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import {
+  checkPassword,
+  createSessionToken,
+  getAuthConfig,
+  parseUserName,
+  rateLimited,
+  sessionCookie,
+  takeLoginAttempt,
+} from "@/lib/auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// POST { password, user? } -> sets the session cookie
+export async function POST(req: Request) {
+  const config = getAuthConfig();
+  if (!config.password) return NextResponse.json({ error: "Password login is not configured" }, { status: 404 });
+
+  const attempt = takeLoginAttempt(req);
+  if (!attempt.ok) return rateLimited(attempt, "Too many login attempts");
+
+  let body: any;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Body must be JSON" }, { status: 400 });
+  }
+  if (!checkPassword(config, body?.password)) {
+    return NextResponse.json({ error: "Wrong password" }, { status: 401 });
+  }
+
+  const user = parseUserName(body?.user);
+  if (!user) return NextResponse.json({ error: "Name may use letters, digits, _ and - (max 32)" }, { status: 400 });
+
+  const session = createSessionToken(config, user);
+  return NextResponse.json(
+    { ok: true, user, expiresAt: session.expiresAt },
+    { headers: { "Set-Cookie": sessionCookie(req, session.value, config.sessionTtlMs) } }
+  );
+}
@@ -0,0 +1,9 @@
+import { NextResponse } from "next/server";
+import { sessionCookie } from "@/lib/auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function POST(req: Request) {
+  return NextResponse.json({ ok: true }, { headers: { "Set-Cookie": sessionCookie(req, "", 0) } });
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import { authenticate, getAuthConfig, principalUser } from "@/lib/auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Lets the page tell "signed out" from "server down" before it opens the stream
+export async function GET(req: Request) {
+  const config = getAuthConfig();
+  const who = authenticate(req);
+  return NextResponse.json({
+    required: config.enabled,
+    passwordLogin: !!config.password,
+    authenticated: !!who,
+    kind: who?.kind ?? null,
+    user: who ? principalUser(who) : null,
+    scopes: who?.scopes ?? [],
+  });
+}
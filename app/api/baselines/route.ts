@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+import { guard } from "@/lib/auth";
+import { currentBaselineBook } from "@/lib/poller";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Baselines are maintained by the stream poller from the trades it has seen;
+// other instances serve the leader's last snapshot
+export async function GET(req: Request) {
+  const auth = guard(req, "stream:read");
+  if (auth instanceof NextResponse) return auth;
+
+  const { searchParams } = new URL(req.url);
+  const wallet = searchParams.get("wallet");
+  try {
+    const book = await currentBaselineBook();
+    const baselines = wallet ? [book.get(wallet)].filter(Boolean) : book.list();
+    return NextResponse.json({ options: book.options, baselines });
+  } catch (err: any) {
+    return NextResponse.json({ error: `Poller state unavailable: ${err?.message || err}` }, { status: 500 });
+  }
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server";
+import { authenticate, hasScope } from "@/lib/auth";
+import { getPollerHealth } from "@/lib/poller-health";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// 503 when degraded so uptime checks can alert on it; the body says why.
+// Anonymous callers only get the status; wallet details need wallets:read.
+export async function GET(req: Request) {
+  const report = getPollerHealth().report();
+  const status = report.status === "degraded" ? 503 : 200;
+  const who = authenticate(req);
+
+  if (!hasScope(who, "stream:read")) return NextResponse.json({ status: report.status }, { status });
+  if (!hasScope(who, "wallets:read")) return NextResponse.json({ ...report, wallets: [] }, { status });
+  return NextResponse.json(report, { status });
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import { guard } from "@/lib/auth";
+import { getMetrics } from "@/lib/metrics";
+import { getPollerHealth } from "@/lib/poller-health";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// wallets:read because series are labelled with wallet addresses
+export async function GET(req: Request) {
+  const auth = guard(req, "wallets:read");
+  if (auth instanceof NextResponse) return auth;
+
+  // registers the poller gauges even before the poll loop has started
+  getPollerHealth();
+  return new Response(getMetrics().render(), {
+    headers: { "Content-Type": "text/plain; version=0.0.4; charset=utf-8" },
+  });
+}
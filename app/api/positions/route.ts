@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { guard } from "@/lib/auth";
+import { currentPositionBook } from "@/lib/poller";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Positions are folded by the stream poller from the trades it has seen; other
+// instances serve the leader's last snapshot
+export async function GET(req: Request) {
+  const auth = guard(req, "stream:read");
+  if (auth instanceof NextResponse) return auth;
+
+  const { searchParams } = new URL(req.url);
+  const wallet = searchParams.get("wallet") || undefined;
+  const includeClosed = searchParams.get("closed") === "1";
+
+  try {
+    const positions = (await currentPositionBook()).list(wallet).filter((p) => includeClosed || p.shares > 0);
+    return NextResponse.json({ positions });
+  } catch (err: any) {
+    return NextResponse.json({ error: `Poller state unavailable: ${err?.message || err}` }, { status: 500 });
+  }
+}
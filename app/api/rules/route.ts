@@ -0,0 +1,94 @@
+import { NextResponse } from "next/server";
+import { guard, principalUser } from "@/lib/auth";
+import { loadNotifyTargets } from "@/lib/notifier";
+import { RuleInputError, parseRuleInput, type RuleInput } from "@/lib/rules";
+import { createRule, deleteRule, listRules, updateRule } from "@/lib/rule-store";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function errorResponse(err: any) {
+  if (err instanceof RuleInputError) {
+    return NextResponse.json({ error: err.message }, { status: err.status });
+  }
+  return NextResponse.json({ error: `Failed to load rules (${String(err?.message || err)})` }, { status: 500 });
+}
+
+async function readBody(req: Request) {
+  try {
+    return await req.json();
+  } catch {
+    throw new RuleInputError("Body must be JSON");
+  }
+}
+
+function notifyTargetNames(): string[] {
+  try {
+    return loadNotifyTargets().map((t) => t.name);
+  } catch {
+    return []; // a broken notify config already fails loudly in the poller
+  }
+}
+
+// forwarding names a configured notify target, so typos are caught at save time
+function checkForward(input: Partial<RuleInput>) {
+  const targets = notifyTargetNames();
+  for (const name of input.actions?.forward ?? []) {
+    if (!targets.includes(name)) throw new RuleInputError(`Unknown notify target "${name}"`);
+  }
+  return input;
+}
+
+export async function GET(req: Request) {
+  const auth = guard(req, "rules:read");
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const rules = await listRules(principalUser(auth));
+    return NextResponse.json({ user: principalUser(auth), rules, notifyTargets: notifyTargetNames() });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
+
+// POST { name, enabled?, conditions: [{ field, op, value }], actions: { speak, show, chime, highlight?, forward } }
+export async function POST(req: Request) {
+  const auth = guard(req, "rules:write");
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const input = checkForward(parseRuleInput(await readBody(req), false)) as RuleInput;
+    const rule = await createRule(principalUser(auth), input);
+    return NextResponse.json({ rule }, { status: 201 });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
+
+// PATCH { id, ...fields to change }
+export async function PATCH(req: Request) {
+  const auth = guard(req, "rules:write");
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const body = await readBody(req);
+    const rule = await updateRule(principalUser(auth), body?.id, checkForward(parseRuleInput(body, true)));
+    return NextResponse.json({ rule });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
+
+// DELETE ?id=...
+export async function DELETE(req: Request) {
+  const auth = guard(req, "rules:write");
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const { searchParams } = new URL(req.url);
+    await deleteRule(principalUser(auth), searchParams.get("id"));
+    return NextResponse.json({ ok: true });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+import { guard } from "@/lib/auth";
+import { STATS_WINDOWS, computeStats } from "@/lib/stats";
+import { getTradeHistory } from "@/lib/trade-history";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Computed from the trade history the poller (and any backfill) has recorded
+export async function GET(req: Request) {
+  const auth = guard(req, "stream:read");
+  if (auth instanceof NextResponse) return auth;
+
+  const now = Date.now();
+  const longest = Math.max(...Object.values(STATS_WINDOWS));
+
+  try {
+    const events = await getTradeHistory().since(now - longest);
+    return NextResponse.json(computeStats(events, now));
+  } catch (err: any) {
+    return NextResponse.json({ error: `Trade history unavailable: ${err?.message || err}` }, { status: 500 });
+  }
+}
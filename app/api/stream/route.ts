@@ -1,32 +1,39 @@
-import { fetchTrackedWallets } from "@/lib/sheets";
-import { fetchLatestTradesForWallet, type PolymarketTrade } from "@/lib/polymarket";
-import { mapWithConcurrency } from "@/lib/concurrency";
+import { NextResponse } from "next/server";
+import { guard } from "@/lib/auth";
+import { getStateStore } from "@/lib/state-store";
+import { createReplayBuffer, type ReplayBuffer } from "@/lib/replay-buffer";
+import type { TradeEvent } from "@/lib/events";
+import { matchesFilter, parseStreamFilter, type StreamFilter } from "@/lib/filters";
+import { getEventBus, type BusMessage } from "@/lib/event-bus";
+import { REPLAY_BUFFER_SIZE, startPoller } from "@/lib/poller";
+import { getPollerHealth } from "@/lib/poller-health";
+import { getMetrics } from "@/lib/metrics";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
-type TradeEvent = {
-  id: string; // stable-ish id for dedupe
-  wallet: string;
-  trader: string;
-  side: "BUY" | "SELL";
-  outcome?: string;
-  title?: string;
-  shares?: number;
-  usdc?: number;
-  price?: number;
-  timestampMs: number;
-  tx?: string;
+const SSE_HEARTBEAT_MS = Math.max(1000, Number(process.env.SSE_HEARTBEAT_MS) || 15_000);
+const SSE_RETRY_MS = Math.max(0, Number(process.env.SSE_RETRY_MS) || 3000);
+// unread bytes a client may fall behind by before it is dropped (it resumes via Last-Event-ID)
+const SSE_MAX_BUFFER_BYTES = Math.max(64 * 1024, Number(process.env.SSE_MAX_BUFFER_BYTES) || 1024 * 1024);
+
+type StreamClient = {
+  writer: WritableStreamDefaultWriter;
+  filter: StreamFilter;
+  buffered: number; // bytes written but not yet read by the response
+  closed: boolean;
 };
 
+// This instance's clients. Events come from the event bus, whichever instance
+// is polling, and are kept in a local replay buffer for resumes.
 declare global {
   // eslint-disable-next-line no-var
   var __PM_SSE_STATE__:
     | {
-        clients: Set<WritableStreamDefaultWriter>;
-        lastSeenByWallet: Map<string, number>; // timestampMs
-        lastSentIds: Set<string>;
-        started: boolean;
+        clients: Set<StreamClient>;
+        heartbeat: ReturnType<typeof setInterval> | null;
+        replay: ReplayBuffer<TradeEvent>;
+        ready: Promise<void> | null;
       }
     | undefined;
 }
@@ -35,141 +42,179 @@ function getState() {
   if (!globalThis.__PM_SSE_STATE__) {
     globalThis.__PM_SSE_STATE__ = {
       clients: new Set(),
-      lastSeenByWallet: new Map(),
-      lastSentIds: new Set(),
-      started: false,
+      heartbeat: null,
+      replay: createReplayBuffer<TradeEvent>(REPLAY_BUFFER_SIZE),
+      ready: null,
     };
+
+    const state = globalThis.__PM_SSE_STATE__;
+    getPollerHealth().bind({ clients: () => state.clients.size });
   }
   return globalThis.__PM_SSE_STATE__!;
 }
 
-function toTradeEvent(t: PolymarketTrade, trader: string): TradeEvent {
-  const tx = t.transactionHash || "";
-  const id = tx ? `${t.proxyWallet}:${tx}` : `${t.proxyWallet}:${t.timestamp}:${t.side}:${t.price}:${t.size}`;
-  return {
-    id,
-    wallet: t.proxyWallet,
-    trader,
-    side: t.side,
-    outcome: t.outcome,
-    title: t.title,
-    shares: typeof t.size === "number" ? t.size : undefined,
-    usdc: typeof t.usdcSize === "number" ? t.usdcSize : undefined,
-    price: typeof t.price === "number" ? t.price : undefined,
-    timestampMs: t.timestamp,
-    tx: tx || undefined,
-  };
+function dropClient(state: ReturnType<typeof getState>, client: StreamClient, reason: string) {
+  if (client.closed) return;
+  client.closed = true;
+  state.clients.delete(client);
+  if (reason !== "closed") getMetrics().counter("pm_sse_evictions_total", "Stream clients dropped by the server").inc({ reason });
+  // abort rather than close: a slow client's queued writes would otherwise keep it alive
+  client.writer.abort().catch(() => {});
+
+  if (!state.clients.size && state.heartbeat) {
+    clearInterval(state.heartbeat);
+    state.heartbeat = null;
+  }
 }
 
-function sseLine(obj: any) {
-  return `data: ${JSON.stringify(obj)}\n\n`;
+// Never awaited by broadcasters, so one slow client can't stall the others.
+// `initial` writes (the hello and the replay backlog) go out before the client
+// can have read anything; the replay buffer bounds them, so they don't count
+// against SSE_MAX_BUFFER_BYTES.
+function send(state: ReturnType<typeof getState>, client: StreamClient, payload: string, initial = false) {
+  if (client.closed || !payload) return;
+  const bytes = initial ? 0 : Buffer.byteLength(payload);
+  // a single large write is fine; piling more on an unread one is not
+  if (client.buffered > 0 && client.buffered + bytes > SSE_MAX_BUFFER_BYTES) {
+    dropClient(state, client, "backpressure");
+    return;
+  }
+  client.buffered += bytes;
+  client.writer.write(payload).then(
+    () => {
+      client.buffered -= bytes;
+    },
+    () => dropClient(state, client, "write_failed")
+  );
 }
 
-async function pollLoop() {
-  const state = getState();
-  if (state.started) return;
-  state.started = true;
-
-  const POLL_MS = 2500; // fixed, fast, and safe-ish
-  const CONCURRENCY = 8; // avoids hammering API too hard
-
-  // eslint-disable-next-line no-constant-condition
-  while (true) {
-    try {
-      const wallets = await fetchTrackedWallets();
-
-      // Fetch each wallet concurrently (bounded)
-      const perWallet = await mapWithConcurrency(wallets, CONCURRENCY, async (w) => {
-        try {
-          const trades = await fetchLatestTradesForWallet(w.wallet, 25);
-          return { ...w, trades };
-        } catch {
-          return { ...w, trades: [] as PolymarketTrade[] };
-        }
-      });
-
-      const newEvents: TradeEvent[] = [];
-
-      for (const w of perWallet) {
-        const lastSeen = state.lastSeenByWallet.get(w.wallet) ?? 0;
+// SSE comment lines keep proxies and load balancers from closing idle connections
+function ensureHeartbeat(state: ReturnType<typeof getState>) {
+  if (state.heartbeat) return;
+  state.heartbeat = setInterval(() => {
+    for (const c of Array.from(state.clients)) send(state, c, `: ping ${Date.now()}\n\n`);
+  }, SSE_HEARTBEAT_MS);
+}
 
-        // Only consider trades newer than lastSeen
-        const fresh = w.trades
-          .map((t) => toTradeEvent(t, w.trader))
-          .filter((e) => e.timestampMs > lastSeen);
+function broadcast(state: ReturnType<typeof getState>, msg: BusMessage) {
+  if (msg.type === "events") {
+    // another instance's snapshot or a redelivery may already have these
+    const fresh = msg.entries.filter((e) => state.replay.add(e));
+    if (!fresh.length || !state.clients.size) return;
+
+    // Each client only gets what its filter matches; the id still advances
+    // to the batch's last seq so a resume never re-scans skipped events
+    const lastSeq = fresh[fresh.length - 1].seq;
+    const events = fresh.map((e) => e.item);
+    for (const c of Array.from(state.clients)) {
+      const matched = events.filter((e) => matchesFilter(e, c.filter));
+      if (matched.length) send(state, c, sseLine({ type: "events", events: matched }, lastSeq));
+    }
+    return;
+  }
 
-        if (fresh.length > 0) {
-          const newestTs = Math.max(...fresh.map((e) => e.timestampMs));
-          state.lastSeenByWallet.set(w.wallet, newestTs);
+  if (msg.type === "cluster") {
+    // a cluster goes to clients that would have seen any of its trades
+    for (const c of Array.from(state.clients)) {
+      if (!msg.events.some((e) => matchesFilter(e, c.filter))) continue;
+      send(state, c, sseLine({ type: "cluster", cluster: msg.cluster }));
+    }
+    return;
+  }
 
-          for (const e of fresh) {
-            // global dedupe (tx hash based id)
-            if (state.lastSentIds.has(e.id)) continue;
-            state.lastSentIds.add(e.id);
+  const payload = sseLine({ type: msg.type, wallets: msg.wallets });
+  for (const c of Array.from(state.clients)) send(state, c, payload);
+}
 
-            // keep set from growing forever
-            if (state.lastSentIds.size > 5000) {
-              const keep = new Set(Array.from(state.lastSentIds).slice(-2500));
-              state.lastSentIds = keep;
-            }
+// Seed the replay buffer from the leader's last snapshot, then follow the bus
+async function connect(state: ReturnType<typeof getState>) {
+  try {
+    const snap = await getStateStore().load();
+    if (snap) {
+      state.replay = createReplayBuffer<TradeEvent>(REPLAY_BUFFER_SIZE, {
+        lastSeq: snap.eventSeq,
+        entries: snap.recentEvents,
+      });
+    }
+  } catch (err) {
+    console.error("[stream] failed to load replay backlog", err);
+  }
 
-            newEvents.push(e);
-          }
-        }
-      }
+  const bus = await getEventBus();
+  bus.subscribe((msg) => broadcast(state, msg));
+}
 
-      if (newEvents.length && state.clients.size) {
-        // Sort oldest -> newest so the log feels natural
-        newEvents.sort((a, b) => a.timestampMs - b.timestampMs);
+function ensureConnected(state: ReturnType<typeof getState>) {
+  if (!state.ready) {
+    state.ready = connect(state).catch((err) => {
+      state.ready = null; // e.g. the bus is unreachable; the next request retries
+      throw err;
+    });
+  }
+  return state.ready;
+}
 
-        const payload = sseLine({ type: "events", events: newEvents });
-        await Promise.allSettled(Array.from(state.clients).map((w) => w.write(payload)));
-      }
-    } catch {
-      // ignore loop errors
-    }
+function sseLine(obj: any, id?: number) {
+  const idLine = id !== undefined ? `id: ${id}\n` : "";
+  return `${idLine}data: ${JSON.stringify(obj)}\n\n`;
+}
 
-    await new Promise((r) => setTimeout(r, POLL_MS));
-  }
+// Last-Event-ID is sent by EventSource on its own reconnects; ?since= lets a
+// fresh EventSource (e.g. after a page-level reconnect) resume explicitly.
+function parseResumeId(req: Request, url: URL): number | null {
+  const raw = req.headers.get("last-event-id") ?? url.searchParams.get("since");
+  if (raw === null || raw.trim() === "") return null;
+  const n = Number(raw);
+  return Number.isFinite(n) && n >= 0 ? Math.floor(n) : null;
 }
 
 export async function GET(req: Request) {
+  const auth = guard(req, "stream:read", { queryToken: true });
+  if (auth instanceof NextResponse) return auth;
+
   const url = new URL(req.url);
-  const minUsd = Number(url.searchParams.get("minUsd") || "0");
-  const filterBig = url.searchParams.get("filterBig") === "1";
+  const filter = parseStreamFilter(url.searchParams);
+  const resumeFrom = parseResumeId(req, url);
 
   const state = getState();
-  pollLoop().catch(() => {});
+  // polls only if this instance wins the leader lease
+  startPoller();
+  await ensureConnected(state);
 
   const stream = new TransformStream();
   const writer = stream.writable.getWriter();
 
-  // Register client
-  state.clients.add(writer);
-
-  // Initial hello
-  await writer.write(
-    sseLine({
-      type: "hello",
-      serverTime: Date.now(),
-      filter: { filterBig, minUsd },
-    })
+  // Snapshot the backlog and register in the same tick, so nothing broadcast
+  // in between is missed (overlap is harmless: the page dedupes by event id)
+  const backlog = resumeFrom !== null ? state.replay.since(resumeFrom) : null;
+  const client: StreamClient = { writer, filter, buffered: 0, closed: false };
+  state.clients.add(client);
+  ensureHeartbeat(state);
+
+  // Initial hello, with how long EventSource should wait before reconnecting
+  send(
+    state,
+    client,
+    `retry: ${SSE_RETRY_MS}\n` +
+      sseLine({
+        type: "hello",
+        serverTime: Date.now(),
+        lastEventId: state.replay.lastSeq(),
+        filter,
+        heartbeatMs: SSE_HEARTBEAT_MS,
+      }),
+    true
   );
 
-  const controller = new AbortController();
-  req.signal.addEventListener("abort", () => controller.abort(), { once: true });
+  if (backlog && backlog.entries.length) {
+    const events = backlog.entries.map((e) => e.item).filter((e) => matchesFilter(e, filter));
+    const lastSeq = backlog.entries[backlog.entries.length - 1].seq;
+    send(state, client, sseLine({ type: "events", events, replay: true, truncated: backlog.truncated }, lastSeq), true);
+  }
 
-  // Remove client on close
-  controller.signal.addEventListener(
-    "abort",
-    () => {
-      state.clients.delete(writer);
-      try {
-        writer.close();
-      } catch {}
-    },
-    { once: true }
-  );
+  // Remove client on close (including one that disconnected before we got here)
+  if (req.signal.aborted) dropClient(state, client, "closed");
+  else req.signal.addEventListener("abort", () => dropClient(state, client, "closed"), { once: true });
 
   return new Response(stream.readable, {
     headers: {
@@ -1,28 +1,114 @@
 import { NextResponse } from "next/server";
+import { guard } from "@/lib/auth";
+import { isAddress } from "@/lib/address";
+import { toCsv } from "@/lib/csv";
+import type { TradeEvent } from "@/lib/events";
+import { parseStreamFilter } from "@/lib/filters";
+import { decodeCursor, getTradeHistory } from "@/lib/trade-history";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 1000;
+
+const CSV_COLUMNS: (keyof TradeEvent)[] = [
+  "timestampMs",
+  "trader",
+  "wallet",
+  "side",
+  "outcome",
+  "shares",
+  "price",
+  "usdc",
+  "title",
+  "slug",
+  "conditionId",
+  "tx",
+  "id",
+];
+
+class QueryError extends Error {}
+
+// ISO date/time or epoch milliseconds
+function parseTime(params: URLSearchParams, name: string): number | undefined {
+  const raw = params.get(name);
+  if (raw === null || raw.trim() === "") return undefined;
+  const n = /^\d+$/.test(raw.trim()) ? Number(raw) : Date.parse(raw);
+  if (!Number.isFinite(n)) throw new QueryError(`Invalid ${name}: expected an ISO date or epoch milliseconds`);
+  return n;
+}
+
+function parseQuery(params: URLSearchParams) {
+  const side = params.get("side");
+  if (side && !["BUY", "SELL"].includes(side.toUpperCase())) throw new QueryError("Invalid side: expected BUY or SELL");
+
+  const minUsd = params.get("minUsd");
+  if (minUsd && !(Number(minUsd) >= 0)) throw new QueryError("Invalid minUsd: expected a non-negative number");
+
+  // out-of-range limits are clamped rather than rejected
+  const rawLimit = params.get("limit");
+  const n = rawLimit ? Number(rawLimit) : DEFAULT_LIMIT;
+  if (!Number.isFinite(n)) throw new QueryError("Invalid limit: expected a number");
+  const limit = Math.min(MAX_LIMIT, Math.max(1, Math.floor(n)));
+
+  const cursor = params.get("cursor") || undefined;
+  if (cursor && !decodeCursor(cursor)) throw new QueryError("Invalid cursor");
+
+  const format = (params.get("format") || "json").toLowerCase();
+  if (format !== "json" && format !== "csv") throw new QueryError("Invalid format: expected json or csv");
+
+  const from = parseTime(params, "from");
+  const to = parseTime(params, "to");
+  if (from !== undefined && to !== undefined && from >= to) {
+    throw new QueryError("Invalid range: from must be before to");
+  }
+
+  // ?user= is the old single-wallet parameter
+  const walletParams = new URLSearchParams(params);
+  for (const u of params.getAll("user")) walletParams.append("wallet", u);
+  for (const w of walletParams.getAll("wallet").flatMap((v) => v.split(","))) {
+    if (w.trim() && !isAddress(w.trim())) {
+      throw new QueryError(`Invalid wallet: ${w.trim().slice(0, 64)} (expected 0x followed by 40 hex characters)`);
+    }
+  }
+
+  return { filter: parseStreamFilter(walletParams), from, to, limit, cursor, format };
+}
 
 export async function GET(req: Request) {
+  const auth = guard(req, "stream:read");
+  if (auth instanceof NextResponse) return auth;
+
   const { searchParams } = new URL(req.url);
-  const user = searchParams.get("user");
 
-  if (!user) {
-    return NextResponse.json({ error: "Missing ?user=0x..." }, { status: 400 });
+  let q: ReturnType<typeof parseQuery>;
+  try {
+    q = parseQuery(searchParams);
+  } catch (err: any) {
+    if (err instanceof QueryError) return NextResponse.json({ error: err.message }, { status: 400 });
+    throw err;
   }
 
-  const limit = searchParams.get("limit") ?? "10";
-
-  // Polymarket data API trades endpoint
-  const url = `https://data-api.polymarket.com/trades?user=${encodeURIComponent(
-    user
-  )}&limit=${encodeURIComponent(limit)}&takerOnly=true`;
+  let page;
+  try {
+    page = await getTradeHistory().query({ ...q.filter, from: q.from, to: q.to, limit: q.limit, cursor: q.cursor });
+  } catch (err: any) {
+    return NextResponse.json({ error: `Trade history unavailable: ${err?.message || err}` }, { status: 500 });
+  }
 
-  const res = await fetch(url, { cache: "no-store" });
-  if (!res.ok) {
-    return NextResponse.json(
-      { error: `Polymarket API error (${res.status})` },
-      { status: 500 }
+  if (q.format === "csv") {
+    const rows = page.trades.map((e) =>
+      CSV_COLUMNS.map((c) => (c === "timestampMs" ? new Date(e.timestampMs).toISOString() : e[c]))
     );
+    return new Response(toCsv([CSV_COLUMNS.map((c) => (c === "timestampMs" ? "time" : c)), ...rows]), {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": 'attachment; filename="trades.csv"',
+        ...(page.nextCursor ? { "X-Next-Cursor": page.nextCursor } : {}),
+      },
+    });
   }
 
-  const data = await res.json();
-  return NextResponse.json({ trades: data });
+  return NextResponse.json(page);
 }
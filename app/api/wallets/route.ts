@@ -1,46 +1,85 @@
 import { NextResponse } from "next/server";
+import { guard } from "@/lib/auth";
+import {
+  WalletInputError,
+  addWallet,
+  listManagedWallets,
+  parseWalletInput,
+  removeWallet,
+  updateWallet,
+} from "@/lib/wallet-store";
 
-type WalletRow = { name: string; wallet: string };
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
 
-function parseCsv(csv: string): WalletRow[] {
-  const lines = csv
-    .split(/\r?\n/)
-    .map((l) => l.trim())
-    .filter(Boolean);
+function errorResponse(err: any) {
+  if (err instanceof WalletInputError) {
+    return NextResponse.json({ error: err.message }, { status: err.status });
+  }
+  return NextResponse.json(
+    { error: `Failed to load wallets (${String(err?.message || err)})` },
+    { status: 500 }
+  );
+}
 
-  const rows: WalletRow[] = [];
-  for (let i = 0; i < lines.length; i++) {
-    const parts = lines[i].split(",");
-    const name = (parts[0] ?? "").replace(/^"|"$/g, "").trim();
-    const wallet = (parts[1] ?? "").replace(/^"|"$/g, "").trim();
-    if (!name || !wallet) continue;
+async function readBody(req: Request) {
+  try {
+    return await req.json();
+  } catch {
+    throw new WalletInputError("Body must be JSON");
+  }
+}
 
-    // Skip header if present
-    if (i === 0 && /name/i.test(name) && /wallet/i.test(wallet)) continue;
+export async function GET(req: Request) {
+  const auth = guard(req, "wallets:read");
+  if (auth instanceof NextResponse) return auth;
 
-    rows.push({ name, wallet });
+  try {
+    const wallets = await listManagedWallets();
+    return NextResponse.json({ wallets });
+  } catch (err) {
+    return errorResponse(err);
   }
-  return rows;
 }
 
-export async function GET() {
-  const url = process.env.SHEET_CSV_URL;
-  if (!url) {
-    return NextResponse.json(
-      { error: "Missing SHEET_CSV_URL env var" },
-      { status: 500 }
-    );
+// POST { wallet, trader, minUsd?, tags?, voiceAlias?, muted?, notes? }
+export async function POST(req: Request) {
+  const auth = guard(req, "wallets:write");
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const body = await readBody(req);
+    const wallet = await addWallet(body?.wallet, parseWalletInput(body, false));
+    return NextResponse.json({ wallet }, { status: 201 });
+  } catch (err) {
+    return errorResponse(err);
   }
+}
+
+// PATCH { wallet, ...fields to change }
+export async function PATCH(req: Request) {
+  const auth = guard(req, "wallets:write");
+  if (auth instanceof NextResponse) return auth;
 
-  const res = await fetch(url, { cache: "no-store" });
-  if (!res.ok) {
-    return NextResponse.json(
-      { error: `Failed to fetch sheet CSV (${res.status})` },
-      { status: 500 }
-    );
+  try {
+    const body = await readBody(req);
+    const wallet = await updateWallet(body?.wallet, parseWalletInput(body, true));
+    return NextResponse.json({ wallet });
+  } catch (err) {
+    return errorResponse(err);
   }
+}
 
-  const csv = await res.text();
-  const wallets = parseCsv(csv);
-  return NextResponse.json({ wallets });
+// DELETE ?wallet=0x...
+export async function DELETE(req: Request) {
+  const auth = guard(req, "wallets:write");
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const { searchParams } = new URL(req.url);
+    await removeWallet(searchParams.get("wallet"));
+    return NextResponse.json({ ok: true });
+  } catch (err) {
+    return errorResponse(err);
+  }
 }
@@ -0,0 +1,82 @@
+import { NextResponse } from "next/server";
+import { guard } from "@/lib/auth";
+import {
+  WatchInputError,
+  addWatch,
+  listWatches,
+  parseWatchInput,
+  parseWatchPatch,
+  removeWatch,
+  updateWatch,
+} from "@/lib/watchlist";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function errorResponse(err: any) {
+  if (err instanceof WatchInputError) {
+    return NextResponse.json({ error: err.message }, { status: err.status });
+  }
+  return NextResponse.json({ error: `Failed to load watchlist (${String(err?.message || err)})` }, { status: 500 });
+}
+
+async function readBody(req: Request) {
+  try {
+    return await req.json();
+  } catch {
+    throw new WatchInputError("Body must be JSON");
+  }
+}
+
+export async function GET(req: Request) {
+  const auth = guard(req, "wallets:read");
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const watches = await listWatches();
+    return NextResponse.json({ watches });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
+
+// POST { market: slug | conditionId | URL, minUsd?, label? } or { keyword, minUsd?, label? }
+export async function POST(req: Request) {
+  const auth = guard(req, "wallets:write");
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const watch = await addWatch(await parseWatchInput(await readBody(req)));
+    return NextResponse.json({ watch }, { status: 201 });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
+
+// PATCH { id, minUsd?, label? }
+export async function PATCH(req: Request) {
+  const auth = guard(req, "wallets:write");
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const body = await readBody(req);
+    const watch = await updateWatch(body?.id, parseWatchPatch(body));
+    return NextResponse.json({ watch });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
+
+// DELETE ?id=...
+export async function DELETE(req: Request) {
+  const auth = guard(req, "wallets:write");
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const { searchParams } = new URL(req.url);
+    await removeWatch(searchParams.get("id"));
+    return NextResponse.json({ ok: true });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
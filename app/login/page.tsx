@@ -0,0 +1,72 @@
+"use client";
+
+import { useState } from "react";
+
+export default function LoginPage() {
+  const [user, setUser] = useState("");
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  async function submit(e: React.FormEvent) {
+    e.preventDefault();
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/auth/login", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ user: user.trim() || undefined, password }),
+      });
+      if (res.ok) {
+        window.location.href = "/";
+        return;
+      }
+      const data = await res.json().catch(() => null);
+      setError(data?.error || `Login failed (${res.status})`);
+    } catch {
+      setError("Server unreachable");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="flex min-h-screen items-center justify-center px-6">
+      <form onSubmit={submit} className="w-full max-w-sm rounded-2xl border border-white/10 bg-white/5 p-6">
+        <div className="text-lg font-semibold tracking-tight">Polymarket Wallet Voice Tracker</div>
+        <div className="mt-1 text-sm text-white/60">
+          Enter the shared password to continue. Your name keeps your alert rules apart, but isn't private.
+        </div>
+
+        <input
+          autoFocus
+          autoComplete="username"
+          value={user}
+          onChange={(e) => setUser(e.target.value)}
+          className="mt-4 w-full rounded-xl border border-white/10 bg-black/40 px-3 py-2 text-sm outline-none focus:border-white/30"
+          placeholder="Name (optional)"
+        />
+
+        <input
+          type="password"
+          autoComplete="current-password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          className="mt-2 w-full rounded-xl border border-white/10 bg-black/40 px-3 py-2 text-sm outline-none focus:border-white/30"
+          placeholder="Password"
+        />
+
+        {error && <div className="mt-2 text-sm text-rose-300">{error}</div>}
+
+        <button
+          type="submit"
+          disabled={busy || !password}
+          className="mt-4 w-full rounded-xl border border-white/20 bg-white/10 px-3 py-2 text-sm transition disabled:opacity-50"
+        >
+          {busy ? "Signing in…" : "Sign in"}
+        </button>
+      </form>
+    </div>
+  );
+}
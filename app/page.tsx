@@ -1,20 +1,39 @@
 "use client";
 
-import { useEffect, useMemo, useRef, useState } from "react";
-
-type TradeEvent = {
-  id: string;
-  wallet: string;
-  trader: string;
-  side: "BUY" | "SELL";
-  outcome?: string;
-  title?: string;
-  shares?: number;
-  usdc?: number;
-  price?: number;
-  timestampMs: number;
-  tx?: string;
-};
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import type { TradeEvent } from "@/lib/events";
+import type { Cluster } from "@/lib/clusters";
+import {
+  DEFAULT_VOICE_SETTINGS,
+  createSpeechQueue,
+  loadVoiceSettings,
+  playChime,
+  saveVoiceSettings,
+  type Announcement,
+  type SpeechQueue,
+  type VoiceSettings,
+} from "@/lib/speech";
+import {
+  DEFAULT_ANNOUNCEMENT_SETTINGS,
+  loadAnnouncementSettings,
+  marketTitle,
+  renderTemplate,
+  renderTemplateParts,
+  saveAnnouncementSettings,
+  templateValues,
+  type AnnouncementSettings,
+} from "@/lib/templates";
+import { outcomeTone } from "@/lib/outcomes";
+import { integerToWords, spokenDollars, spokenPrice } from "@/lib/humanize";
+import { evaluateRules, type AlertRule, type HighlightColour } from "@/lib/rules";
+import { HealthBanner } from "@/components/health-banner";
+import { SessionStatus } from "@/components/session-status";
+import { StatsPanel } from "@/components/stats-panel";
+import { WalletPanel } from "@/components/wallet-panel";
+import { RulesPanel } from "@/components/rules-panel";
+import { WatchlistPanel } from "@/components/watchlist-panel";
+import { VoiceSettingsPanel } from "@/components/voice-settings";
+import { AnnouncementSettingsPanel } from "@/components/announcement-settings";
 
 function fmtTimeNY(tsMs: number) {
   const d = new Date(tsMs);
@@ -26,6 +45,15 @@ function fmtTimeNY(tsMs: number) {
   }).format(d);
 }
 
+function fmtDate(tsMs: number) {
+  return new Intl.DateTimeFormat("en-US", {
+    timeZone: "America/New_York",
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  }).format(new Date(tsMs));
+}
+
 function fmtNum(n: number, digits = 2) {
   if (!Number.isFinite(n)) return "";
   return new Intl.NumberFormat("en-US", {
@@ -34,39 +62,185 @@ function fmtNum(n: number, digits = 2) {
   }).format(n);
 }
 
-function speak(text: string, rate = 1.15) {
-  if (typeof window === "undefined") return;
-  const synth = window.speechSynthesis;
-  if (!synth) return;
+const POSITION_LABELS: Record<NonNullable<TradeEvent["position"]>["action"], string> = {
+  opened: "opened",
+  added: "added to",
+  trimmed: "trimmed",
+  closed: "closed out",
+  sold: "sold (pre-tracking)",
+};
+
+const OUTCOME_PALETTE = [
+  "text-sky-400",
+  "text-amber-300",
+  "text-fuchsia-400",
+  "text-teal-300",
+  "text-orange-400",
+  "text-indigo-300",
+];
+
+function outcomeClass(outcome?: string, outcomeIndex?: number) {
+  const tone = outcomeTone(outcome, outcomeIndex, OUTCOME_PALETTE.length);
+  if (tone === "yes") return "text-emerald-400";
+  if (tone === "no") return "text-red-500";
+  return OUTCOME_PALETTE[tone];
+}
 
-  // cancel any backlog so it stays “snappy”
-  synth.cancel();
+// Trades by the same trader, side and market that are still waiting to be spoken
+// collapse into one "made N buys … totalling …" line.
+function tradeAnnouncement(e: TradeEvent, bigTradeUsd: number, settings: AnnouncementSettings): Announcement {
+  const values = templateValues(e, settings, "speech");
+  // big in dollars, or big for this particular trader
+  const priority = (e.usdc ?? 0) >= bigTradeUsd || e.unusual ? 2 : 1;
+
+  const make = (count: number, usd: number): Announcement => ({
+    text:
+      count === 1
+        ? renderTemplate(settings.speechTemplate, values)
+        : `${values.trader} made ${integerToWords(count)} ${e.side === "BUY" ? "buys" : "sells"} in ${
+            values.title
+          } totalling ${spokenDollars(usd)}`,
+    priority,
+    coalesceKey: `${e.wallet}|${e.side}|${e.conditionId || e.slug || e.title}`,
+    data: { count, usd },
+    merge: (pending) => make(pending.data.count + count, pending.data.usd + usd),
+  });
+
+  return make(1, e.usdc ?? 0);
+}
 
-  const u = new SpeechSynthesisUtterance(text);
-  u.rate = rate;
-  u.pitch = 1.0;
-  u.volume = 1.0;
-  synth.speak(u);
+function clusterLine(c: Cluster, settings: AnnouncementSettings) {
+  const sideWord = c.side === "BUY" ? "buying" : "selling";
+  const avg = c.avgPrice !== undefined ? `, average price ${spokenPrice(c.avgPrice)}` : "";
+  return `Cluster alert. ${integerToWords(c.traders.length)} traders ${sideWord} ${c.outcome || "shares"} in ${marketTitle(
+    c,
+    settings
+  )}, ${spokenDollars(c.totalUsd)} combined${avg}`;
+}
+
+const HIGHLIGHT_CLASS: Record<HighlightColour, string> = {
+  amber: "border-amber-400/60 bg-amber-400/[0.06]",
+  emerald: "border-emerald-400/60 bg-emerald-400/[0.06]",
+  sky: "border-sky-400/60 bg-sky-400/[0.06]",
+  rose: "border-rose-400/60 bg-rose-400/[0.06]",
+  violet: "border-violet-400/60 bg-violet-400/[0.06]",
+};
+
+type Alert = { event: TradeEvent; rules: string[] };
+
+function TrackButton({ state, onClick }: { state?: string; onClick: () => void }) {
+  if (state === "done") return <span className="text-xs text-emerald-400">tracking</span>;
+  const failed = state && state !== "busy" ? state : null;
+  return (
+    <button
+      className="rounded-full border border-white/20 px-2 py-0.5 text-xs text-white/80 hover:bg-white/10 disabled:opacity-40"
+      disabled={state === "busy"}
+      onClick={onClick}
+      title={failed ?? "Add this wallet to the tracked list"}
+    >
+      {failed ? "Retry track" : "Track"}
+    </button>
+  );
 }
 
 export default function Page() {
   const [connected, setConnected] = useState(false);
   const [events, setEvents] = useState<TradeEvent[]>([]);
+  const [clusters, setClusters] = useState<Cluster[]>([]);
   const [voiceOn, setVoiceOn] = useState(true);
   const [minUsdEnabled, setMinUsdEnabled] = useState(false);
   const [minUsd, setMinUsd] = useState(500);
+  const [unusualOnly, setUnusualOnly] = useState(false);
+  const [voiceSettings, setVoiceSettings] = useState<VoiceSettings>(DEFAULT_VOICE_SETTINGS);
+  const [announceSettings, setAnnounceSettings] = useState<AnnouncementSettings>(DEFAULT_ANNOUNCEMENT_SETTINGS);
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [alerts, setAlerts] = useState<Alert[]>([]);
+  // "Track" clicks on untracked wallets: lowercase address -> "busy" | "done" | error
+  const [tracking, setTracking] = useState<Record<string, string>>({});
+  const [walletsVersion, setWalletsVersion] = useState(0);
 
   const esRef = useRef<EventSource | null>(null);
+  // last SSE id we received; survives EventSource re-creation so we can resume
+  const lastEventIdRef = useRef<string | null>(null);
+  const speechRef = useRef<SpeechQueue | null>(null);
+  const voiceSettingsRef = useRef(voiceSettings);
+  const announceSettingsRef = useRef(announceSettings);
+  // read by the stream handler, so editing rules doesn't reopen the stream
+  const rulesRef = useRef(rules);
+
+  // settings live in localStorage, so they can only be read after mount
+  useEffect(() => {
+    const saved = loadVoiceSettings();
+    setVoiceSettings(saved);
+    voiceSettingsRef.current = saved;
+    speechRef.current = createSpeechQueue(saved);
+
+    const announce = loadAnnouncementSettings();
+    setAnnounceSettings(announce);
+    announceSettingsRef.current = announce;
+    return () => speechRef.current?.clear();
+  }, []);
+
+  function updateVoiceSettings(s: VoiceSettings) {
+    setVoiceSettings(s);
+    voiceSettingsRef.current = s;
+    speechRef.current?.setSettings(s);
+    saveVoiceSettings(s);
+  }
+
+  function updateAnnounceSettings(s: AnnouncementSettings) {
+    setAnnounceSettings(s);
+    announceSettingsRef.current = s;
+    saveAnnouncementSettings(s);
+  }
+
+  async function trackWallet(e: TradeEvent) {
+    const key = e.wallet.toLowerCase();
+    setTracking((t) => ({ ...t, [key]: "busy" }));
+    try {
+      const res = await fetch("/api/wallets", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ wallet: e.wallet, trader: e.trader }),
+      });
+      const data = await res.json().catch(() => ({}));
+      // 409: someone tracked it already
+      if (!res.ok && res.status !== 409) throw new Error(data?.error || `Request failed (${res.status})`);
+      setTracking((t) => ({ ...t, [key]: "done" }));
+      setWalletsVersion((v) => v + 1);
+    } catch (err: any) {
+      setTracking((t) => ({ ...t, [key]: err.message }));
+    }
+  }
+
+  const updateRules = useCallback((r: AlertRule[]) => {
+    setRules(r);
+    rulesRef.current = r;
+  }, []);
+
+  useEffect(() => {
+    if (!voiceOn) speechRef.current?.clear();
+  }, [voiceOn]);
 
   const filtered = useMemo(() => {
     const base = [...events].sort((a, b) => b.timestampMs - a.timestampMs);
-    if (!minUsdEnabled) return base;
-    return base.filter((e) => (e.usdc ?? 0) >= minUsd);
-  }, [events, minUsdEnabled, minUsd]);
+    return base.filter((e) => (!minUsdEnabled || (e.usdc ?? 0) >= minUsd) && (!unusualOnly || e.unusual));
+  }, [events, minUsdEnabled, minUsd, unusualOnly]);
+
+  const highlights = useMemo(() => {
+    const out = new Map<string, HighlightColour>();
+    if (!rules.some((r) => r.enabled && r.actions.highlight)) return out;
+    for (const e of filtered.slice(0, 250)) {
+      const colour = evaluateRules(e, rules).highlight;
+      if (colour) out.set(e.id, colour);
+    }
+    return out;
+  }, [filtered, rules]);
 
   useEffect(() => {
     const url = new URL("/api/stream", window.location.origin);
     // (server-side poll is fixed; filter is client-side for instant toggles)
+    if (lastEventIdRef.current) url.searchParams.set("since", lastEventIdRef.current);
     const es = new EventSource(url.toString());
     esRef.current = es;
 
@@ -74,6 +248,7 @@ export default function Page() {
     es.onerror = () => setConnected(false);
 
     es.onmessage = (msg) => {
+      if (msg.lastEventId) lastEventIdRef.current = msg.lastEventId;
       try {
         const data = JSON.parse(msg.data);
         if (data?.type === "events" && Array.isArray(data.events)) {
@@ -90,22 +265,49 @@ export default function Page() {
             return merged;
           });
 
-          // voice + text at same time:
-          if (voiceOn) {
+          const rules = rulesRef.current;
+          const matches = new Map(incoming.map((e) => [e.id, evaluateRules(e, rules)]));
+
+          const shown = incoming.filter((e) => matches.get(e.id)!.show);
+          if (shown.length) {
+            setAlerts((prev) => {
+              const fresh = shown.filter((e) => !prev.some((a) => a.event.id === e.id));
+              const added = fresh.map((e) => ({ event: e, rules: matches.get(e.id)!.rules.map((r) => r.name) }));
+              return [...added.reverse(), ...prev].slice(0, 20);
+            });
+          }
+
+          // voice + text at same time (missed trades replayed on reconnect stay silent):
+          if (voiceOn && !data.replay) {
+            // once any rule speaks, rules alone pick what is spoken
+            const ruleVoice = rules.some((r) => r.enabled && r.actions.speak);
             for (const e of incoming) {
-              // apply same filter rules to voice
-              if (minUsdEnabled && (e.usdc ?? 0) < minUsd) continue;
-
-              const sideWord = e.side === "BUY" ? "bought" : "sold";
-              const shares = e.shares ? fmtNum(e.shares, 0) : "";
-              const title = e.title || "a market";
-              const outcome = (e.outcome || "").toLowerCase().includes("no") ? "No" : "Yes";
-              const p = Number.isFinite(e.price ?? NaN) ? ` at ${fmtNum(e.price!, 3)} dollars per share` : "";
-              const usd = Number.isFinite(e.usdc ?? NaN) ? ` for ${fmtNum(e.usdc!, 2)} dollars` : "";
-
-              const line = `${e.trader} ${sideWord} ${shares} shares of ${outcome} in ${title}${p}${usd}`;
-              speak(line, 1.15);
+              if (e.muted) continue;
+              if (ruleVoice) {
+                if (!matches.get(e.id)!.speak) continue;
+              } else {
+                // apply same filter rules to voice
+                if (minUsdEnabled && (e.usdc ?? 0) < minUsd) continue;
+                if (unusualOnly && !e.unusual) continue;
+              }
+
+              speechRef.current?.enqueue(
+                tradeAnnouncement(e, voiceSettingsRef.current.bigTradeUsd, announceSettingsRef.current)
+              );
             }
+            if (incoming.some((e) => matches.get(e.id)!.chime)) playChime(voiceSettingsRef.current.volume);
+          }
+        }
+
+        if (data?.type === "cluster" && data.cluster) {
+          const c: Cluster = data.cluster;
+          // a growing cluster replaces its earlier, smaller report
+          setClusters((prev) => [c, ...prev.filter((p) => p.eventIds[0] !== c.eventIds[0])].slice(0, 20));
+
+          if (voiceOn && !(minUsdEnabled && c.totalUsd < minUsd)) {
+            const line = clusterLine(c, announceSettingsRef.current);
+            // clusters outrank everything and get their own, lower voice line
+            speechRef.current?.enqueue({ text: line, priority: 3, pitch: 0.8, rate: 1.05 });
           }
         }
       } catch {
@@ -119,7 +321,7 @@ export default function Page() {
       } catch {}
       esRef.current = null;
     };
-  }, [voiceOn, minUsdEnabled, minUsd]);
+  }, [voiceOn, minUsdEnabled, minUsd, unusualOnly]);
 
   return (
     <div className="min-h-screen">
@@ -144,6 +346,8 @@ export default function Page() {
               <span className="text-white/80">{connected ? "Connected" : "Reconnecting…"}</span>
             </div>
 
+            <SessionStatus />
+
             <button
               className={[
                 "rounded-xl border px-3 py-2 text-sm transition",
@@ -164,6 +368,17 @@ export default function Page() {
               Filter: {minUsdEnabled ? `≥ $${minUsd}` : "Off"}
             </button>
 
+            <button
+              className={[
+                "rounded-xl border px-3 py-2 text-sm transition",
+                unusualOnly ? "border-white/20 bg-white/10" : "border-white/10 bg-transparent text-white/70",
+              ].join(" ")}
+              onClick={() => setUnusualOnly((v) => !v)}
+              title="Only trades unusually large for that trader"
+            >
+              Unusual only: {unusualOnly ? "On" : "Off"}
+            </button>
+
             {minUsdEnabled && (
               <div className="flex items-center gap-2 rounded-xl border border-white/10 bg-white/5 px-3 py-2 text-sm">
                 <span className="text-white/60">Min $</span>
@@ -180,6 +395,8 @@ export default function Page() {
           </div>
         </div>
 
+        <HealthBanner />
+
         {/* Main */}
         <div className="mt-6 grid grid-cols-1 gap-6 md:grid-cols-12">
           {/* Left: Live log */}
@@ -190,6 +407,50 @@ export default function Page() {
                 <div className="text-xs text-white/50">{filtered.length} events</div>
               </div>
 
+              {alerts.length > 0 && (
+                <div className="space-y-1 border-b border-white/10 px-2 py-2">
+                  <div className="flex items-center justify-between px-1">
+                    <span className="text-xs font-semibold uppercase tracking-wide text-sky-300">Alerts</span>
+                    <button className="text-xs text-white/50 hover:text-white/80" onClick={() => setAlerts([])}>
+                      Clear
+                    </button>
+                  </div>
+                  {alerts.slice(0, 5).map(({ event: e, rules: names }) => (
+                    <div key={e.id} className="rounded-xl border border-sky-400/40 bg-sky-400/10 px-3 py-2 text-sm">
+                      <span className="text-xs text-white/50">{fmtTimeNY(e.timestampMs)}</span>{" "}
+                      <span className="text-white/90">
+                        {renderTemplate(announceSettings.logTemplate, templateValues(e, announceSettings, "text"))}
+                      </span>
+                      <div className="mt-0.5 text-xs text-sky-200/70">{names.join(", ")}</div>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {clusters.length > 0 && (
+                <div className="space-y-2 border-b border-white/10 px-2 py-2">
+                  {clusters.slice(0, 3).map((c) => (
+                    <div key={c.id} className="rounded-xl border border-amber-400/40 bg-amber-400/10 px-3 py-2 text-sm">
+                      <div className="flex flex-wrap items-baseline gap-x-2">
+                        <span className="text-xs font-semibold uppercase tracking-wide text-amber-300">Cluster</span>
+                        <span className="text-xs text-white/50">{fmtTimeNY(c.lastAt)}</span>
+                        <span className="font-semibold text-white">{c.traders.length} traders</span>
+                        <span className={c.side === "BUY" ? "text-emerald-400" : "text-red-500"}>
+                          {c.side === "BUY" ? "buying" : "selling"}
+                        </span>
+                        <span className={`font-semibold ${outcomeClass(c.outcome, c.outcomeIndex)}`}>{c.outcome}</span>
+                        <span className="text-white/60">in</span>
+                        <span className="text-white/90">{c.title ? marketTitle(c, announceSettings) : "Unknown market"}</span>
+                      </div>
+                      <div className="mt-1 text-xs text-white/60">
+                        ${fmtNum(c.totalUsd, 0)} combined
+                        {c.avgPrice !== undefined && ` · avg $${fmtNum(c.avgPrice, 3)}`} · {c.traders.join(", ")}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+
               <div className="max-h-[70vh] overflow-auto px-2 py-2">
                 {filtered.length === 0 ? (
                   <div className="px-3 py-10 text-center text-sm text-white/50">
@@ -201,21 +462,37 @@ export default function Page() {
                       const isBuy = e.side === "BUY";
                       const dot = isBuy ? "bg-emerald-400" : "bg-red-500";
 
-                      const verb = isBuy ? "bought" : "sold";
                       const verbClass = isBuy ? "text-emerald-400" : "text-red-500";
 
-                      const outcome = (e.outcome || "").toLowerCase().includes("no") ? "No" : "Yes";
-                      const outcomeClass =
-                        outcome === "Yes" ? "text-emerald-400" : "text-red-500";
+                      const values = templateValues(e, announceSettings, "text");
+                      const partClass: Record<string, string> = {
+                        trader: "font-semibold text-white",
+                        verb: `font-semibold ${verbClass}`,
+                        side: `font-semibold ${verbClass}`,
+                        outcome: `font-semibold ${outcomeClass(e.outcome, e.outcomeIndex)}`,
+                      };
 
-                      const shares = Number.isFinite(e.shares ?? NaN) ? `${fmtNum(e.shares!, 0)} shares` : "";
                       const price = Number.isFinite(e.price ?? NaN) ? `$${fmtNum(e.price!, 3)}/share` : "";
                       const usd = Number.isFinite(e.usdc ?? NaN) ? `$${fmtNum(e.usdc!, 2)}` : "";
 
+                      const pos = e.position;
+                      const pnl = pos?.realizedDelta;
+
+                      // "bought at 0.42, now 0.47"; green when the market moved the trader's way
+                      const now = e.currentPrice;
+                      const moved = now !== undefined && e.price !== undefined ? now - e.price : 0;
+                      const nowClass =
+                        moved === 0 ? "text-white/70" : moved > 0 === isBuy ? "text-emerald-400" : "text-red-500";
+
                       return (
                         <li
                           key={e.id}
-                          className="rounded-xl border border-white/10 bg-white/[0.02] px-3 py-3 hover:bg-white/[0.04]"
+                          className={[
+                            "rounded-xl border px-3 py-3 hover:bg-white/[0.04]",
+                            highlights.has(e.id)
+                              ? HIGHLIGHT_CLASS[highlights.get(e.id)!]
+                              : "border-white/10 bg-white/[0.02]",
+                          ].join(" ")}
                         >
                           <div className="flex items-start gap-3">
                             <span className={`mt-1.5 h-2.5 w-2.5 shrink-0 rounded-full ${dot}`} />
@@ -223,17 +500,70 @@ export default function Page() {
                             <div className="min-w-0 flex-1">
                               <div className="flex flex-wrap items-baseline gap-x-2 gap-y-1">
                                 <span className="text-xs text-white/50">{fmtTimeNY(e.timestampMs)}</span>
-                                <span className="font-semibold text-white">{e.trader}</span>
-                                <span className={`font-semibold ${verbClass}`}>{verb}</span>
-                                <span className="text-white/90">{shares}</span>
-                                <span className={`font-semibold ${outcomeClass}`}>{outcome}</span>
-                                <span className="text-white/60">in</span>
-                                <span className="text-white/90">{e.title || "Unknown market"}</span>
+                                <span className="whitespace-pre-wrap">
+                                  {renderTemplateParts(announceSettings.logTemplate, values).map((p, i) => (
+                                    <span
+                                      key={i}
+                                      className={p.field ? partClass[p.field] ?? "text-white/90" : "text-white/60"}
+                                    >
+                                      {p.text}
+                                    </span>
+                                  ))}
+                                </span>
+                                {pos && (
+                                  <span className="rounded-full border border-white/10 bg-white/5 px-2 py-0.5 text-xs text-white/70">
+                                    {POSITION_LABELS[pos.action]}
+                                  </span>
+                                )}
+                                {e.unusual && (
+                                  <span className="rounded-full border border-amber-400/40 bg-amber-400/10 px-2 py-0.5 text-xs text-amber-300">
+                                    {fmtNum(e.anomalyScore!, 1)}× usual size
+                                  </span>
+                                )}
+                                {e.watches?.map((w) => (
+                                  <span
+                                    key={w}
+                                    className="rounded-full border border-sky-400/40 bg-sky-400/10 px-2 py-0.5 text-xs text-sky-300"
+                                  >
+                                    watch: {w}
+                                  </span>
+                                ))}
+                                {e.untracked && (
+                                  <span className="rounded-full border border-white/10 bg-white/5 px-2 py-0.5 text-xs text-white/60">
+                                    untracked
+                                  </span>
+                                )}
+                                {e.untracked && (
+                                  <TrackButton state={tracking[e.wallet.toLowerCase()]} onClick={() => trackWallet(e)} />
+                                )}
                               </div>
 
                               <div className="mt-1 flex flex-wrap gap-x-3 gap-y-1 text-xs text-white/55">
                                 {price && <span>{price}</span>}
+                                {now !== undefined && <span className={nowClass}>now ${fmtNum(now, 3)}</span>}
                                 {usd && <span>notional {usd}</span>}
+                                {pos && pos.sharesAfter > 0 && (
+                                  <span>
+                                    holds {fmtNum(pos.sharesAfter, 0)} @ ${fmtNum(pos.avgPrice, 3)}
+                                  </span>
+                                )}
+                                {pnl !== undefined && (
+                                  <span className={pnl >= 0 ? "text-emerald-400" : "text-red-500"}>
+                                    realized {pnl >= 0 ? "+" : "−"}${fmtNum(Math.abs(pnl), 2)}
+                                  </span>
+                                )}
+                                {e.category && <span>{e.category}</span>}
+                                {e.endDateMs && <span>ends {fmtDate(e.endDateMs)}</span>}
+                                {e.marketUrl && (
+                                  <a
+                                    href={e.marketUrl}
+                                    target="_blank"
+                                    rel="noreferrer"
+                                    className="text-white/70 underline decoration-white/20 hover:text-white"
+                                  >
+                                    market
+                                  </a>
+                                )}
                                 <span className="truncate">wallet {e.wallet}</span>
                               </div>
                             </div>
@@ -248,25 +578,18 @@ export default function Page() {
           </div>
 
           {/* Right: info panel */}
-          <div className="md:col-span-4">
-            <div className="rounded-2xl border border-white/10 bg-white/[0.03] p-4">
-              <div className="text-sm font-medium text-white/85">How it works</div>
-              <div className="mt-2 space-y-2 text-sm text-white/60">
-                <p>
-                  Wallets are loaded from your Google Sheet (Column A = trader name, Column B = wallet).
-                </p>
-                <p>
-                  The server polls Polymarket and pushes updates instantly to this page (no manual refresh).
-                </p>
-                <p>
-                  Voice uses your browser’s built-in speech engine. Turn it off any time.
-                </p>
-              </div>
+          <div className="space-y-6 md:col-span-4">
+            <StatsPanel />
 
-              <div className="mt-4 rounded-xl border border-white/10 bg-black/30 p-3 text-xs text-white/55">
-                Tip: keep this tab open all day. If voice ever “stops,” toggle Voice off/on once.
-              </div>
-            </div>
+            <VoiceSettingsPanel settings={voiceSettings} onChange={updateVoiceSettings} />
+
+            <AnnouncementSettingsPanel settings={announceSettings} onChange={updateAnnounceSettings} />
+
+            <RulesPanel onRulesChange={updateRules} />
+
+            <WatchlistPanel />
+
+            <WalletPanel reloadKey={walletsVersion} />
           </div>
         </div>
 
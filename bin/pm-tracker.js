@@ -0,0 +1,16 @@
+#!/usr/bin/env node
+// Runs scripts/tracker.ts through tsx, resolving `@/` imports against this
+// package wherever the command is run from. Relative data paths (the wallet
+// overlay in .data/wallets.json, WALLETS_FILE, …) still resolve against the
+// current directory, so run it from the app's directory or set them absolute.
+const path = require("path");
+const { spawnSync } = require("child_process");
+
+const root = path.resolve(__dirname, "..");
+const tsx = require.resolve("tsx/cli", { paths: [root] });
+
+const result = spawnSync(process.execPath, [tsx, path.join(root, "scripts/tracker.ts"), ...process.argv.slice(2)], {
+  stdio: "inherit",
+  env: { ...process.env, TSX_TSCONFIG_PATH: path.join(root, "tsconfig.json") },
+});
+process.exit(result.status ?? 1);
@@ -0,0 +1,166 @@
+"use client";
+
+import { useState } from "react";
+import { DEFAULT_ANNOUNCEMENT_SETTINGS, TEMPLATE_PLACEHOLDERS, type AnnouncementSettings } from "@/lib/templates";
+
+export function AnnouncementSettingsPanel({
+  settings,
+  onChange,
+}: {
+  settings: AnnouncementSettings;
+  onChange: (s: AnnouncementSettings) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [traderName, setTraderName] = useState("");
+  const [traderAlias, setTraderAlias] = useState("");
+  const [marketMatch, setMarketMatch] = useState("");
+  const [marketAlias, setMarketAlias] = useState("");
+
+  const set = (patch: Partial<AnnouncementSettings>) => onChange({ ...settings, ...patch });
+  const inputClass =
+    "min-w-0 rounded-lg bg-black/60 px-2 py-1 text-sm text-white outline-none ring-1 ring-white/10 focus:ring-white/20";
+  const smallBtn =
+    "rounded-lg border border-white/10 px-2 py-0.5 text-xs text-white/70 hover:bg-white/10 disabled:opacity-40";
+
+  return (
+    <div className="rounded-2xl border border-white/10 bg-white/[0.03] p-4">
+      <div className="flex items-center justify-between">
+        <div className="text-sm font-medium text-white/85">Announcements</div>
+        <button className={smallBtn} onClick={() => setOpen((v) => !v)}>
+          {open ? "Hide" : "Edit"}
+        </button>
+      </div>
+
+      {open && (
+        <div className="mt-3 space-y-4 text-sm">
+          <div className="text-xs text-white/50">
+            Placeholders: {TEMPLATE_PLACEHOLDERS.map((p) => `{${p}}`).join(" ")}. Wrap a part in [ ] to drop it when a
+            value is missing.
+          </div>
+
+          <label className="flex flex-col gap-1">
+            <span className="text-xs text-white/50">Spoken line</span>
+            <textarea
+              className={`${inputClass} h-16 resize-y`}
+              value={settings.speechTemplate}
+              onChange={(e) => set({ speechTemplate: e.target.value })}
+            />
+          </label>
+
+          <label className="flex flex-col gap-1">
+            <span className="text-xs text-white/50">Log line</span>
+            <textarea
+              className={`${inputClass} h-12 resize-y`}
+              value={settings.logTemplate}
+              onChange={(e) => set({ logTemplate: e.target.value })}
+            />
+          </label>
+
+          <button
+            className={smallBtn}
+            onClick={() =>
+              set({
+                speechTemplate: DEFAULT_ANNOUNCEMENT_SETTINGS.speechTemplate,
+                logTemplate: DEFAULT_ANNOUNCEMENT_SETTINGS.logTemplate,
+              })
+            }
+          >
+            Reset templates
+          </button>
+
+          <div>
+            <div className="text-xs text-white/50">Trader pronunciation</div>
+            <ul className="mt-1 space-y-1">
+              {Object.entries(settings.traderAliases).map(([name, alias]) => (
+                <li key={name} className="flex items-center gap-2 text-xs">
+                  <span className="flex-1 truncate text-white/80">{name}</span>
+                  <span className="flex-1 truncate text-white/60">“{alias}”</span>
+                  <button
+                    className={smallBtn}
+                    onClick={() => {
+                      const next = { ...settings.traderAliases };
+                      delete next[name];
+                      set({ traderAliases: next });
+                    }}
+                  >
+                    Remove
+                  </button>
+                </li>
+              ))}
+            </ul>
+            <form
+              className="mt-2 flex gap-2"
+              onSubmit={(e) => {
+                e.preventDefault();
+                set({ traderAliases: { ...settings.traderAliases, [traderName.trim()]: traderAlias.trim() } });
+                setTraderName("");
+                setTraderAlias("");
+              }}
+            >
+              <input
+                className={`${inputClass} flex-1`}
+                placeholder="Trader"
+                value={traderName}
+                onChange={(e) => setTraderName(e.target.value)}
+              />
+              <input
+                className={`${inputClass} flex-1`}
+                placeholder="Say as"
+                value={traderAlias}
+                onChange={(e) => setTraderAlias(e.target.value)}
+              />
+              <button type="submit" className={smallBtn} disabled={!traderName.trim() || !traderAlias.trim()}>
+                Add
+              </button>
+            </form>
+          </div>
+
+          <div>
+            <div className="text-xs text-white/50">Market short names</div>
+            <ul className="mt-1 space-y-1">
+              {settings.marketAliases.map((a, idx) => (
+                <li key={`${a.match}-${idx}`} className="flex items-center gap-2 text-xs">
+                  <span className="flex-1 truncate text-white/80">{a.match}</span>
+                  <span className="flex-1 truncate text-white/60">“{a.alias}”</span>
+                  <button
+                    className={smallBtn}
+                    onClick={() => set({ marketAliases: settings.marketAliases.filter((_, i) => i !== idx) })}
+                  >
+                    Remove
+                  </button>
+                </li>
+              ))}
+            </ul>
+            <form
+              className="mt-2 flex gap-2"
+              onSubmit={(e) => {
+                e.preventDefault();
+                set({
+                  marketAliases: [...settings.marketAliases, { match: marketMatch.trim(), alias: marketAlias.trim() }],
+                });
+                setMarketMatch("");
+                setMarketAlias("");
+              }}
+            >
+              <input
+                className={`${inputClass} flex-1`}
+                placeholder="Slug or title text"
+                value={marketMatch}
+                onChange={(e) => setMarketMatch(e.target.value)}
+              />
+              <input
+                className={`${inputClass} flex-1`}
+                placeholder="Short name"
+                value={marketAlias}
+                onChange={(e) => setMarketAlias(e.target.value)}
+              />
+              <button type="submit" className={smallBtn} disabled={!marketMatch.trim() || !marketAlias.trim()}>
+                Add
+              </button>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
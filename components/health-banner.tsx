@@ -0,0 +1,45 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { HealthReport } from "@/lib/poller-health";
+
+const REFRESH_MS = 30_000;
+
+export function HealthBanner() {
+  const [report, setReport] = useState<HealthReport | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function load() {
+      try {
+        // a degraded poller answers 503 with the same body
+        const res = await fetch("/api/health", { cache: "no-store" });
+        const data = await res.json();
+        if (!cancelled) setReport(data);
+      } catch {
+        // the stream's own "Reconnecting…" covers the server being unreachable
+      }
+    }
+
+    load();
+    const t = setInterval(load, REFRESH_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(t);
+    };
+  }, []);
+
+  if (report?.status !== "degraded") return null;
+
+  return (
+    <div className="mt-4 rounded-xl border border-amber-400/40 bg-amber-400/10 px-4 py-3 text-sm text-amber-200">
+      <div className="font-medium">Poller degraded: trades may be delayed or missing.</div>
+      <ul className="mt-1 list-disc pl-5 text-xs text-amber-200/80">
+        {report.reasons.map((r) => (
+          <li key={r}>{r}</li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,308 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import {
+  HIGHLIGHT_COLOURS,
+  RULE_FIELDS,
+  RULE_OPS,
+  RULE_OP_LABELS,
+  describeCondition,
+  type AlertRule,
+  type RuleActions,
+  type RuleField,
+  type RuleOp,
+} from "@/lib/rules";
+
+// Conditions are edited as text and parsed by the server, which owns validation
+type DraftCondition = { field: RuleField; op: RuleOp; value: string };
+type Draft = { id?: string; name: string; conditions: DraftCondition[]; actions: RuleActions };
+
+const EMPTY_DRAFT: Draft = {
+  name: "",
+  conditions: [{ field: "usdc", op: "gte", value: "1000" }],
+  actions: { speak: true, show: false, chime: false, forward: [] },
+};
+
+function toDraft(r: AlertRule): Draft {
+  return {
+    id: r.id,
+    name: r.name,
+    conditions: r.conditions.map((c) => ({
+      field: c.field,
+      op: c.op,
+      value: Array.isArray(c.value) ? c.value.join(", ") : String(c.value),
+    })),
+    actions: r.actions,
+  };
+}
+
+function describeActions(a: RuleActions) {
+  return [
+    a.speak && "speak",
+    a.show && "show",
+    a.chime && "chime",
+    a.highlight && `highlight ${a.highlight}`,
+    ...a.forward.map((t) => `→ ${t}`),
+  ]
+    .filter(Boolean)
+    .join(" · ");
+}
+
+async function call(method: string, body?: any, query = "") {
+  const res = await fetch(`/api/rules${query}`, {
+    method,
+    headers: body ? { "Content-Type": "application/json" } : undefined,
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data?.error || `Request failed (${res.status})`);
+  return data;
+}
+
+export function RulesPanel({ onRulesChange }: { onRulesChange: (rules: AlertRule[]) => void }) {
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [targets, setTargets] = useState<string[]>([]);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      const data = await call("GET");
+      const list: AlertRule[] = Array.isArray(data.rules) ? data.rules : [];
+      setRules(list);
+      setTargets(Array.isArray(data.notifyTargets) ? data.notifyTargets : []);
+      onRulesChange(list);
+      setError(null);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  }, [onRulesChange]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  async function run(fn: () => Promise<unknown>) {
+    setBusy(true);
+    try {
+      await fn();
+      setError(null);
+      await load();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function save(d: Draft) {
+    run(async () => {
+      const body = { name: d.name, conditions: d.conditions, actions: d.actions };
+      await (d.id ? call("PATCH", { id: d.id, ...body }) : call("POST", body));
+      setDraft(null);
+    });
+  }
+
+  function setCondition(i: number, patch: Partial<DraftCondition>) {
+    if (!draft) return;
+    const conditions = draft.conditions.map((c, j) => {
+      if (j !== i) return c;
+      const next = { ...c, ...patch };
+      // keep the operator valid for the field's kind
+      const ops = RULE_OPS[RULE_FIELDS[next.field].kind];
+      return ops.includes(next.op) ? next : { ...next, op: ops[0] };
+    });
+    setDraft({ ...draft, conditions });
+  }
+
+  function setActions(patch: Partial<RuleActions>) {
+    if (draft) setDraft({ ...draft, actions: { ...draft.actions, ...patch } });
+  }
+
+  const inputClass =
+    "min-w-0 rounded-lg bg-black/60 px-2 py-1 text-sm text-white outline-none ring-1 ring-white/10 focus:ring-white/20";
+  const smallBtn =
+    "rounded-lg border border-white/10 px-2 py-0.5 text-xs text-white/70 hover:bg-white/10 disabled:opacity-40";
+
+  return (
+    <div className="rounded-2xl border border-white/10 bg-white/[0.03] p-4">
+      <div className="flex items-center justify-between">
+        <div className="text-sm font-medium text-white/85">Alert rules</div>
+        {!draft && (
+          <button className={smallBtn} onClick={() => setDraft(EMPTY_DRAFT)}>
+            New rule
+          </button>
+        )}
+      </div>
+
+      {error && <div className="mt-2 text-xs text-red-400">{error}</div>}
+
+      {draft && (
+        <form
+          className="mt-3 flex flex-col gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            save(draft);
+          }}
+        >
+          <input
+            className={inputClass}
+            placeholder="Rule name"
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+          />
+
+          <div className="text-xs text-white/50">When all of these hold</div>
+          {draft.conditions.map((c, i) => (
+            <div key={i} className="flex gap-1">
+              <select
+                className={inputClass}
+                value={c.field}
+                onChange={(e) => setCondition(i, { field: e.target.value as RuleField })}
+              >
+                {(Object.keys(RULE_FIELDS) as RuleField[]).map((f) => (
+                  <option key={f} value={f}>
+                    {RULE_FIELDS[f].label}
+                  </option>
+                ))}
+              </select>
+              <select
+                className={inputClass}
+                value={c.op}
+                onChange={(e) => setCondition(i, { op: e.target.value as RuleOp })}
+              >
+                {RULE_OPS[RULE_FIELDS[c.field].kind].map((op) => (
+                  <option key={op} value={op}>
+                    {RULE_OP_LABELS[op]}
+                  </option>
+                ))}
+              </select>
+              <input
+                className={`${inputClass} flex-1`}
+                placeholder={c.op === "in" ? "a, b, c" : RULE_FIELDS[c.field].kind === "boolean" ? "true" : "value"}
+                value={c.value}
+                onChange={(e) => setCondition(i, { value: e.target.value })}
+              />
+              <button
+                type="button"
+                className={smallBtn}
+                onClick={() => setDraft({ ...draft, conditions: draft.conditions.filter((_, j) => j !== i) })}
+              >
+                ×
+              </button>
+            </div>
+          ))}
+          <button
+            type="button"
+            className={`${smallBtn} self-start`}
+            onClick={() =>
+              setDraft({ ...draft, conditions: [...draft.conditions, { field: "side", op: "eq", value: "BUY" }] })
+            }
+          >
+            Add condition
+          </button>
+
+          <div className="text-xs text-white/50">Then</div>
+          <div className="flex flex-wrap gap-3 text-sm text-white/80">
+            {(["speak", "show", "chime"] as const).map((a) => (
+              <label key={a} className="flex items-center gap-1">
+                <input
+                  type="checkbox"
+                  checked={draft.actions[a]}
+                  onChange={(e) => setActions({ [a]: e.target.checked })}
+                />
+                {a}
+              </label>
+            ))}
+            <select
+              className={inputClass}
+              value={draft.actions.highlight ?? ""}
+              onChange={(e) => setActions({ highlight: (e.target.value || undefined) as RuleActions["highlight"] })}
+            >
+              <option value="">no highlight</option>
+              {HIGHLIGHT_COLOURS.map((c) => (
+                <option key={c} value={c}>
+                  highlight {c}
+                </option>
+              ))}
+            </select>
+          </div>
+          {targets.length > 0 && (
+            <div className="flex flex-wrap gap-3 text-sm text-white/80">
+              {targets.map((t) => (
+                <label key={t} className="flex items-center gap-1">
+                  <input
+                    type="checkbox"
+                    checked={draft.actions.forward.includes(t)}
+                    onChange={(e) =>
+                      setActions({
+                        forward: e.target.checked
+                          ? [...draft.actions.forward, t]
+                          : draft.actions.forward.filter((f) => f !== t),
+                      })
+                    }
+                  />
+                  forward to {t}
+                </label>
+              ))}
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={busy || !draft.name.trim()}
+              className="rounded-lg border border-white/20 bg-white/10 px-3 py-1 text-sm disabled:opacity-40"
+            >
+              Save
+            </button>
+            <button type="button" className={smallBtn} onClick={() => setDraft(null)}>
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      <ul className="mt-3 max-h-80 space-y-1 overflow-auto">
+        {rules.length === 0 && !draft && (
+          <li className="px-2 py-1.5 text-xs text-white/45">No rules yet: every trade follows the filters above.</li>
+        )}
+        {rules.map((r) => (
+          <li key={r.id} className="flex items-start gap-2 rounded-lg px-2 py-1.5 text-sm hover:bg-white/[0.04]">
+            <div className="min-w-0 flex-1">
+              <div className={r.enabled ? "truncate text-white/90" : "truncate text-white/45"}>
+                {r.name}
+                {!r.enabled && <span className="ml-2 text-xs text-white/40">off</span>}
+              </div>
+              <div className="text-xs text-white/45">
+                {r.conditions.map(describeCondition).join(" and ") || "any trade"}
+              </div>
+              <div className="text-xs text-white/40">{describeActions(r.actions)}</div>
+            </div>
+            <button className={smallBtn} disabled={busy} onClick={() => setDraft(toDraft(r))}>
+              Edit
+            </button>
+            <button
+              className={smallBtn}
+              disabled={busy}
+              onClick={() => run(() => call("PATCH", { id: r.id, enabled: !r.enabled }))}
+            >
+              {r.enabled ? "Disable" : "Enable"}
+            </button>
+            <button
+              className={`${smallBtn} hover:text-red-400`}
+              disabled={busy}
+              onClick={() => {
+                if (!window.confirm(`Delete rule "${r.name}"?`)) return;
+                run(() => call("DELETE", undefined, `?id=${encodeURIComponent(r.id)}`));
+              }}
+            >
+              Delete
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
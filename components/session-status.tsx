@@ -0,0 +1,61 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+type Session = {
+  required: boolean;
+  passwordLogin: boolean;
+  authenticated: boolean;
+  kind: string | null;
+  user: string | null;
+};
+
+const REFRESH_MS = 60_000;
+
+// Sends signed-out visitors to /login (the stream would otherwise just keep
+// failing with 401) and offers a sign-out button when login is on.
+export function SessionStatus() {
+  const [session, setSession] = useState<Session | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function load() {
+      try {
+        const res = await fetch("/api/auth/session", { cache: "no-store" });
+        const data: Session = await res.json();
+        if (cancelled) return;
+        if (data.required && !data.authenticated && data.passwordLogin) {
+          window.location.href = "/login";
+          return;
+        }
+        setSession(data);
+      } catch {
+        // unreachable server: the stream's "Reconnecting…" already says so
+      }
+    }
+
+    load();
+    const t = setInterval(load, REFRESH_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(t);
+    };
+  }, []);
+
+  if (session?.kind !== "session") return null;
+
+  async function signOut() {
+    await fetch("/api/auth/logout", { method: "POST" }).catch(() => {});
+    window.location.href = "/login";
+  }
+
+  return (
+    <button
+      className="rounded-xl border border-white/10 bg-transparent px-3 py-2 text-sm text-white/70 transition hover:border-white/20"
+      onClick={signOut}
+    >
+      Sign out {session.user}
+    </button>
+  );
+}
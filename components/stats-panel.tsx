@@ -0,0 +1,170 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { Stats, StatsWindow } from "@/lib/stats";
+
+const WINDOWS: StatsWindow[] = ["1h", "24h", "7d"];
+const REFRESH_MS = 30_000;
+
+function fmtUsd(n: number) {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    notation: n >= 100_000 ? "compact" : "standard",
+    maximumFractionDigits: n >= 100_000 ? 1 : 0,
+  }).format(n);
+}
+
+export function StatsPanel() {
+  const [stats, setStats] = useState<Stats | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [range, setRange] = useState<StatsWindow>("24h");
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function load() {
+      try {
+        const res = await fetch("/api/stats", { cache: "no-store" });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data?.error || `Request failed (${res.status})`);
+        if (!cancelled) {
+          setStats(data);
+          setError(null);
+        }
+      } catch (err: any) {
+        if (!cancelled) setError(err.message);
+      }
+    }
+
+    load();
+    const t = setInterval(load, REFRESH_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(t);
+    };
+  }, []);
+
+  const w = stats?.windows[range];
+
+  return (
+    <div className="rounded-2xl border border-white/10 bg-white/[0.03] p-4">
+      <div className="flex items-center justify-between">
+        <div className="text-sm font-medium text-white/85">Activity</div>
+        <div className="flex gap-1">
+          {WINDOWS.map((k) => (
+            <button
+              key={k}
+              onClick={() => setRange(k)}
+              className={`rounded-lg px-2 py-0.5 text-xs ${
+                k === range ? "bg-white/15 text-white" : "text-white/50 hover:bg-white/10"
+              }`}
+            >
+              {k}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error && <div className="mt-2 text-xs text-red-400">{error}</div>}
+
+      {!w ? (
+        <div className="mt-3 text-xs text-white/50">Loading…</div>
+      ) : (
+        <div className="mt-3 space-y-4 text-sm">
+          <div className="flex gap-4 text-xs text-white/60">
+            <span>
+              <span className="font-semibold text-white">{fmtUsd(w.volume)}</span> volume
+            </span>
+            <span>
+              <span className="font-semibold text-white">{w.trades}</span> trades
+            </span>
+            <span>
+              <span className="font-semibold text-white">{w.traders.length}</span> active
+            </span>
+          </div>
+
+          {w.traders.length === 0 ? (
+            <div className="text-xs text-white/50">No trades in the last {range}.</div>
+          ) : (
+            <>
+              <div>
+                <div className="mb-1 text-xs uppercase tracking-wide text-white/40">Leaderboard</div>
+                <table className="w-full text-xs">
+                  <thead className="text-white/40">
+                    <tr>
+                      <th className="py-1 text-left font-normal">Trader</th>
+                      <th className="py-1 text-right font-normal">Volume</th>
+                      <th className="py-1 text-right font-normal">Buy %</th>
+                      <th className="py-1 text-right font-normal">Mkts</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {w.traders.slice(0, 10).map((t) => (
+                      <tr key={t.wallet} className="border-t border-white/5">
+                        <td className="max-w-[8rem] truncate py-1 text-white/90">{t.trader}</td>
+                        <td className="py-1 text-right text-white/80">{fmtUsd(t.volume)}</td>
+                        <td
+                          className={`py-1 text-right ${
+                            t.buyRatio === null
+                              ? "text-white/40"
+                              : t.buyRatio >= 0.5
+                                ? "text-emerald-400"
+                                : "text-red-500"
+                          }`}
+                        >
+                          {t.buyRatio === null ? "–" : `${Math.round(t.buyRatio * 100)}%`}
+                        </td>
+                        <td className="py-1 text-right text-white/60">{t.markets}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div>
+                <div className="mb-1 text-xs uppercase tracking-wide text-white/40">Most traded markets</div>
+                <ul className="space-y-1 text-xs">
+                  {w.markets.slice(0, 5).map((m) => (
+                    <li key={m.marketKey} className="flex items-baseline gap-2">
+                      <span className="min-w-0 flex-1 truncate text-white/80">
+                        {m.marketUrl ? (
+                          <a href={m.marketUrl} target="_blank" rel="noreferrer" className="hover:underline">
+                            {m.title || m.slug || "Unknown market"}
+                          </a>
+                        ) : (
+                          m.title || m.slug || "Unknown market"
+                        )}
+                      </span>
+                      <span className="shrink-0 text-white/50">
+                        {fmtUsd(m.volume)} · {m.traders} {m.traders === 1 ? "trader" : "traders"}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+
+              <div>
+                <div className="mb-1 text-xs uppercase tracking-wide text-white/40">Biggest trades</div>
+                <ul className="space-y-1 text-xs">
+                  {w.biggestTrades.slice(0, 5).map((e) => (
+                    <li key={e.id} className="flex items-baseline gap-2">
+                      <span className="shrink-0 font-semibold text-white/90">{e.trader}</span>
+                      <span className={e.side === "BUY" ? "text-emerald-400" : "text-red-500"}>
+                        {e.side === "BUY" ? "bought" : "sold"}
+                      </span>
+                      <span className="min-w-0 flex-1 truncate text-white/60">
+                        {e.outcome} · {e.title || "Unknown market"}
+                      </span>
+                      <span className="shrink-0 text-white/80">{fmtUsd(e.usdc ?? 0)}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { VoiceSettings } from "@/lib/speech";
+
+export function VoiceSettingsPanel({
+  settings,
+  onChange,
+}: {
+  settings: VoiceSettings;
+  onChange: (s: VoiceSettings) => void;
+}) {
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+
+  useEffect(() => {
+    const synth = window.speechSynthesis;
+    if (!synth) return;
+    // voices load asynchronously in most browsers
+    const update = () => setVoices(synth.getVoices());
+    update();
+    synth.addEventListener("voiceschanged", update);
+    return () => synth.removeEventListener("voiceschanged", update);
+  }, []);
+
+  const set = (patch: Partial<VoiceSettings>) => onChange({ ...settings, ...patch });
+  const inputClass =
+    "rounded-lg bg-black/60 px-2 py-1 text-sm text-white outline-none ring-1 ring-white/10 focus:ring-white/20";
+
+  return (
+    <div className="rounded-2xl border border-white/10 bg-white/[0.03] p-4">
+      <div className="text-sm font-medium text-white/85">Voice</div>
+
+      <div className="mt-3 space-y-3 text-sm">
+        <label className="flex flex-col gap-1">
+          <span className="text-xs text-white/50">Voice</span>
+          <select
+            className={inputClass}
+            value={settings.voiceURI ?? ""}
+            onChange={(e) => set({ voiceURI: e.target.value || null })}
+          >
+            <option value="">Browser default</option>
+            {voices.map((v) => (
+              <option key={v.voiceURI} value={v.voiceURI}>
+                {v.name} ({v.lang})
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="flex items-center gap-3">
+          <span className="w-16 text-xs text-white/50">Rate</span>
+          <input
+            className="flex-1"
+            type="range"
+            min={0.5}
+            max={2}
+            step={0.05}
+            value={settings.rate}
+            onChange={(e) => set({ rate: Number(e.target.value) })}
+          />
+          <span className="w-10 text-right text-xs text-white/60">{settings.rate.toFixed(2)}</span>
+        </label>
+
+        <label className="flex items-center gap-3">
+          <span className="w-16 text-xs text-white/50">Pitch</span>
+          <input
+            className="flex-1"
+            type="range"
+            min={0.5}
+            max={2}
+            step={0.05}
+            value={settings.pitch}
+            onChange={(e) => set({ pitch: Number(e.target.value) })}
+          />
+          <span className="w-10 text-right text-xs text-white/60">{settings.pitch.toFixed(2)}</span>
+        </label>
+
+        <div className="flex gap-3">
+          <label className="flex flex-1 flex-col gap-1">
+            <span className="text-xs text-white/50">Max backlog</span>
+            <input
+              className={inputClass}
+              type="number"
+              min={1}
+              value={settings.maxBacklog}
+              onChange={(e) => set({ maxBacklog: Math.max(1, Number(e.target.value || 1)) })}
+            />
+          </label>
+          <label className="flex flex-1 flex-col gap-1">
+            <span className="text-xs text-white/50">Priority above $</span>
+            <input
+              className={inputClass}
+              type="number"
+              min={0}
+              step={500}
+              value={settings.bigTradeUsd}
+              onChange={(e) => set({ bigTradeUsd: Number(e.target.value || 0) })}
+            />
+          </label>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,170 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { TrackedWallet } from "@/lib/sheets";
+
+function shortAddr(a: string) {
+  return a.length > 12 ? `${a.slice(0, 6)}…${a.slice(-4)}` : a;
+}
+
+async function call(method: string, body?: any, query = "") {
+  const res = await fetch(`/api/wallets${query}`, {
+    method,
+    headers: body ? { "Content-Type": "application/json" } : undefined,
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data?.error || `Request failed (${res.status})`);
+  return data;
+}
+
+// `reloadKey` changes when a wallet was added elsewhere on the page
+export function WalletPanel({ reloadKey = 0 }: { reloadKey?: number }) {
+  const [wallets, setWallets] = useState<TrackedWallet[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [name, setName] = useState("");
+  const [address, setAddress] = useState("");
+  const [editing, setEditing] = useState<string | null>(null);
+  const [editName, setEditName] = useState("");
+
+  const load = useCallback(async () => {
+    try {
+      const data = await call("GET");
+      setWallets(Array.isArray(data.wallets) ? data.wallets : []);
+      setError(null);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load, reloadKey]);
+
+  async function run(fn: () => Promise<unknown>) {
+    setBusy(true);
+    try {
+      await fn();
+      setError(null);
+      await load();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const inputClass =
+    "min-w-0 rounded-lg bg-black/60 px-2 py-1 text-sm text-white outline-none ring-1 ring-white/10 focus:ring-white/20";
+  const smallBtn = "rounded-lg border border-white/10 px-2 py-0.5 text-xs text-white/70 hover:bg-white/10 disabled:opacity-40";
+
+  return (
+    <div className="rounded-2xl border border-white/10 bg-white/[0.03] p-4">
+      <div className="flex items-center justify-between">
+        <div className="text-sm font-medium text-white/85">Wallets</div>
+        <div className="text-xs text-white/50">{wallets.length} tracked</div>
+      </div>
+
+      <form
+        className="mt-3 flex flex-col gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          run(async () => {
+            await call("POST", { trader: name, wallet: address });
+            setName("");
+            setAddress("");
+          });
+        }}
+      >
+        <input className={inputClass} placeholder="Trader name" value={name} onChange={(e) => setName(e.target.value)} />
+        <div className="flex gap-2">
+          <input
+            className={`${inputClass} flex-1 font-mono`}
+            placeholder="0x…"
+            value={address}
+            onChange={(e) => setAddress(e.target.value)}
+          />
+          <button
+            type="submit"
+            disabled={busy || !name.trim() || !address.trim()}
+            className="rounded-lg border border-white/20 bg-white/10 px-3 py-1 text-sm disabled:opacity-40"
+          >
+            Add
+          </button>
+        </div>
+      </form>
+
+      {error && <div className="mt-2 text-xs text-red-400">{error}</div>}
+
+      <ul className="mt-3 max-h-80 space-y-1 overflow-auto">
+        {wallets.map((w) => (
+          <li key={w.wallet} className="flex items-center gap-2 rounded-lg px-2 py-1.5 text-sm hover:bg-white/[0.04]">
+            {editing === w.wallet ? (
+              <form
+                className="flex min-w-0 flex-1 gap-2"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  run(async () => {
+                    await call("PATCH", { wallet: w.wallet, trader: editName });
+                    setEditing(null);
+                  });
+                }}
+              >
+                <input
+                  autoFocus
+                  className={`${inputClass} flex-1`}
+                  value={editName}
+                  onChange={(e) => setEditName(e.target.value)}
+                />
+                <button type="submit" className={smallBtn} disabled={busy || !editName.trim()}>
+                  Save
+                </button>
+                <button type="button" className={smallBtn} onClick={() => setEditing(null)}>
+                  Cancel
+                </button>
+              </form>
+            ) : (
+              <>
+                <div className="min-w-0 flex-1">
+                  <div className={w.muted ? "truncate text-white/45" : "truncate text-white/90"}>
+                    {w.trader}
+                    {w.muted && <span className="ml-2 text-xs text-white/40">muted</span>}
+                  </div>
+                  <div className="font-mono text-xs text-white/40">{shortAddr(w.wallet)}</div>
+                </div>
+                <button
+                  className={smallBtn}
+                  disabled={busy}
+                  onClick={() => {
+                    setEditing(w.wallet);
+                    setEditName(w.trader);
+                  }}
+                >
+                  Rename
+                </button>
+                <button
+                  className={smallBtn}
+                  disabled={busy}
+                  onClick={() => run(() => call("PATCH", { wallet: w.wallet, muted: !w.muted }))}
+                >
+                  {w.muted ? "Unmute" : "Mute"}
+                </button>
+                <button
+                  className={`${smallBtn} hover:text-red-400`}
+                  disabled={busy}
+                  onClick={() => {
+                    if (!window.confirm(`Stop tracking ${w.trader}?`)) return;
+                    run(() => call("DELETE", undefined, `?wallet=${encodeURIComponent(w.wallet)}`));
+                  }}
+                >
+                  Remove
+                </button>
+              </>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
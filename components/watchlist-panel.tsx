@@ -0,0 +1,132 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { Watch } from "@/lib/watchlist";
+
+async function call(method: string, body?: any, query = "") {
+  const res = await fetch(`/api/watchlist${query}`, {
+    method,
+    headers: body ? { "Content-Type": "application/json" } : undefined,
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data?.error || `Request failed (${res.status})`);
+  return data;
+}
+
+function fmtUsd(n: number) {
+  return new Intl.NumberFormat("en-US", { maximumFractionDigits: 0 }).format(n);
+}
+
+export function WatchlistPanel() {
+  const [watches, setWatches] = useState<Watch[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [kind, setKind] = useState<Watch["kind"]>("market");
+  const [value, setValue] = useState("");
+  const [minUsd, setMinUsd] = useState("");
+
+  const load = useCallback(async () => {
+    try {
+      const data = await call("GET");
+      setWatches(Array.isArray(data.watches) ? data.watches : []);
+      setError(null);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  async function run(fn: () => Promise<unknown>) {
+    setBusy(true);
+    try {
+      await fn();
+      setError(null);
+      await load();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const inputClass =
+    "min-w-0 rounded-lg bg-black/60 px-2 py-1 text-sm text-white outline-none ring-1 ring-white/10 focus:ring-white/20";
+  const smallBtn =
+    "rounded-lg border border-white/10 px-2 py-0.5 text-xs text-white/70 hover:bg-white/10 disabled:opacity-40";
+
+  return (
+    <div className="rounded-2xl border border-white/10 bg-white/[0.03] p-4">
+      <div className="flex items-center justify-between">
+        <div className="text-sm font-medium text-white/85">Watchlist</div>
+        <div className="text-xs text-white/50">large trades by any wallet</div>
+      </div>
+
+      <form
+        className="mt-3 flex flex-col gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          run(async () => {
+            await call("POST", { [kind]: value, minUsd: minUsd || undefined });
+            setValue("");
+          });
+        }}
+      >
+        <div className="flex gap-2">
+          <select className={inputClass} value={kind} onChange={(e) => setKind(e.target.value as Watch["kind"])}>
+            <option value="market">Market</option>
+            <option value="keyword">Keyword</option>
+          </select>
+          <input
+            className={`${inputClass} flex-1`}
+            placeholder={kind === "market" ? "slug, condition id or URL" : "word in the market title"}
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+          />
+        </div>
+        <div className="flex gap-2">
+          <input
+            className={`${inputClass} flex-1`}
+            type="number"
+            min={0}
+            placeholder="Min $ (optional)"
+            value={minUsd}
+            onChange={(e) => setMinUsd(e.target.value)}
+          />
+          <button
+            type="submit"
+            disabled={busy || !value.trim()}
+            className="rounded-lg border border-white/20 bg-white/10 px-3 py-1 text-sm disabled:opacity-40"
+          >
+            Watch
+          </button>
+        </div>
+      </form>
+
+      {error && <div className="mt-2 text-xs text-red-400">{error}</div>}
+
+      <ul className="mt-3 max-h-80 space-y-1 overflow-auto">
+        {watches.map((w) => (
+          <li key={w.id} className="flex items-center gap-2 rounded-lg px-2 py-1.5 text-sm hover:bg-white/[0.04]">
+            <div className="min-w-0 flex-1">
+              <div className="truncate text-white/90">{w.label}</div>
+              <div className="text-xs text-white/40">
+                {w.kind === "market" ? "market" : "keyword"} · ≥ ${fmtUsd(w.minUsd)}
+              </div>
+            </div>
+            <button
+              className={`${smallBtn} hover:text-red-400`}
+              disabled={busy}
+              onClick={() => run(() => call("DELETE", undefined, `?id=${encodeURIComponent(w.id)}`))}
+            >
+              Remove
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
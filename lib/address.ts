@@ -0,0 +1,37 @@
+import { keccak_256 } from "@noble/hashes/sha3";
+import { bytesToHex, utf8ToBytes } from "@noble/hashes/utils";
+
+const ADDRESS_RE = /^0x[0-9a-fA-F]{40}$/;
+
+export function isAddress(value: string): boolean {
+  return ADDRESS_RE.test(value);
+}
+
+// EIP-55 mixed-case checksum
+export function toChecksumAddress(address: string): string {
+  const lower = address.toLowerCase().replace(/^0x/, "");
+  const hash = bytesToHex(keccak_256(utf8ToBytes(lower)));
+  let out = "0x";
+  for (let i = 0; i < lower.length; i++) {
+    out += parseInt(hash[i], 16) >= 8 ? lower[i].toUpperCase() : lower[i];
+  }
+  return out;
+}
+
+// Returns the checksummed address, or throws if it's malformed or carries a bad checksum.
+// All-lowercase / all-uppercase input has no checksum to verify and is accepted.
+export function normalizeAddress(value: string): string {
+  const trimmed = String(value ?? "").trim();
+  if (!isAddress(trimmed)) throw new Error("Wallet must be 0x followed by 40 hex characters");
+
+  const checksummed = toChecksumAddress(trimmed);
+  const body = trimmed.slice(2);
+  const mixedCase = body !== body.toLowerCase() && body !== body.toUpperCase();
+  if (mixedCase && trimmed !== checksummed) throw new Error("Wallet checksum mismatch");
+
+  return checksummed;
+}
+
+export function shortAddress(address: string): string {
+  return address.length > 12 ? `${address.slice(0, 6)}…${address.slice(-4)}` : address;
+}
@@ -0,0 +1,282 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { readFileSync } from "fs";
+import path from "path";
+import { NextResponse } from "next/server";
+import { getRateLimiter } from "@/lib/rate-limit";
+
+// Shared-secret login (a signed session cookie for the page) and scoped API
+// tokens for headless consumers. Open to everyone while neither is configured.
+
+export const SCOPES = ["stream:read", "wallets:read", "wallets:write", "rules:read", "rules:write"] as const;
+export type Scope = (typeof SCOPES)[number];
+
+export type ApiToken = {
+  name: string;
+  sha256: string; // hex digest of the token; the token itself needn't be stored
+  scopes: Scope[];
+  rateLimit: number; // requests per minute
+};
+
+export type Principal = {
+  kind: "open" | "session" | "token";
+  name: string; // the session's user name, or the token's name
+  scopes: readonly Scope[];
+  token?: ApiToken;
+};
+
+export type AuthConfig = {
+  enabled: boolean;
+  password?: string;
+  sessionSecret: string;
+  sessionTtlMs: number;
+  tokens: ApiToken[];
+  trustProxy: number; // reverse proxies in front that append to X-Forwarded-For
+};
+
+export const SESSION_COOKIE = "pm_session";
+export const DEFAULT_USER = "default";
+const USER_NAME = /^[A-Za-z0-9_-]{1,32}$/;
+const LOGIN_ATTEMPTS_PER_MINUTE = 10;
+const LOGIN_ATTEMPTS_PER_MINUTE_ALL = 30;
+
+function sha256Hex(value: string) {
+  return createHash("sha256").update(value).digest("hex");
+}
+
+function safeEqual(a: string, b: string) {
+  // compare digests so lengths always match
+  return timingSafeEqual(createHash("sha256").update(a).digest(), createHash("sha256").update(b).digest());
+}
+
+export function parseApiTokens(data: unknown, defaultRateLimit: number): ApiToken[] {
+  if (!Array.isArray(data)) throw new Error("API tokens must be a JSON array");
+  return data.map((raw: any, i) => {
+    const name = String(raw?.name || `token-${i + 1}`);
+    const digest = raw?.sha256 ? String(raw.sha256).toLowerCase() : raw?.token ? sha256Hex(String(raw.token)) : "";
+    if (!/^[0-9a-f]{64}$/.test(digest)) throw new Error(`API token ${name}: needs "token" or a hex "sha256"`);
+
+    const scopes = Array.isArray(raw?.scopes) ? raw.scopes.map(String) : [];
+    if (!scopes.length) throw new Error(`API token ${name}: needs at least one scope`);
+    for (const s of scopes) {
+      if (!(SCOPES as readonly string[]).includes(s)) throw new Error(`API token ${name}: unknown scope ${s}`);
+    }
+
+    const rateLimit = Number(raw?.rateLimit);
+    return {
+      name,
+      sha256: digest,
+      scopes: scopes as Scope[],
+      rateLimit: Number.isFinite(rateLimit) && rateLimit > 0 ? rateLimit : defaultRateLimit,
+    };
+  });
+}
+
+// API_TOKENS holds the JSON inline; API_TOKENS_FILE points at a JSON file
+function loadApiTokens(defaultRateLimit: number): ApiToken[] {
+  const inline = process.env.API_TOKENS;
+  if (inline) return parseApiTokens(JSON.parse(inline), defaultRateLimit);
+
+  const file = process.env.API_TOKENS_FILE;
+  if (file) return parseApiTokens(JSON.parse(readFileSync(path.resolve(file), "utf8")), defaultRateLimit);
+
+  return [];
+}
+
+export function authConfigFromEnv(): AuthConfig {
+  const password = process.env.AUTH_PASSWORD || undefined;
+  const ttlHours = Number(process.env.SESSION_TTL_HOURS);
+  const rateLimit = Number(process.env.API_RATE_LIMIT);
+  const tokens = loadApiTokens(Number.isFinite(rateLimit) && rateLimit > 0 ? rateLimit : 120);
+  const trustProxy = Number(process.env.TRUST_PROXY);
+
+  return {
+    enabled: !!password || tokens.length > 0,
+    password,
+    // random per process when unset: a key derived from the password would let
+    // anyone holding one cookie guess the password offline
+    sessionSecret: process.env.SESSION_SECRET || randomBytes(32).toString("hex"),
+    sessionTtlMs: (Number.isFinite(ttlHours) && ttlHours > 0 ? ttlHours : 24 * 7) * 3600_000,
+    tokens,
+    trustProxy: Number.isFinite(trustProxy) && trustProxy > 0 ? Math.floor(trustProxy) : 0,
+  };
+}
+
+declare global {
+  // eslint-disable-next-line no-var
+  var __PM_AUTH__: AuthConfig | undefined;
+}
+
+export function getAuthConfig(): AuthConfig {
+  if (!globalThis.__PM_AUTH__) {
+    const config = authConfigFromEnv();
+    if (!config.enabled) {
+      console.warn(
+        "[auth] WARNING: neither AUTH_PASSWORD nor API_TOKENS is set, so every API (wallet, rule and watchlist edits included) is open to anyone who can reach this server"
+      );
+    } else if (config.password && !process.env.SESSION_SECRET) {
+      console.warn(
+        "[auth] SESSION_SECRET is unset: sessions are signed with a random key and end when this process restarts; set it (the same on every instance) to keep them"
+      );
+    }
+    globalThis.__PM_AUTH__ = config;
+  }
+  return globalThis.__PM_AUTH__!;
+}
+
+function sign(secret: string, value: string) {
+  return createHmac("sha256", secret).update(value).digest("base64url");
+}
+
+// Login names only key per-user data (alert rules); the password is shared
+export function parseUserName(value: unknown): string | null {
+  if (value === undefined || value === null || value === "") return DEFAULT_USER;
+  const name = String(value).trim();
+  return USER_NAME.test(name) ? name : null;
+}
+
+// `<user>.<expiresAt>.<hmac>`
+export function createSessionToken(config: AuthConfig, user = DEFAULT_USER, now = Date.now()) {
+  const expiresAt = now + config.sessionTtlMs;
+  return {
+    value: `${user}.${expiresAt}.${sign(config.sessionSecret, `session:${user}:${expiresAt}`)}`,
+    expiresAt,
+  };
+}
+
+// the session's user, or null when it's forged or expired
+export function verifySessionToken(config: AuthConfig, value: string, now = Date.now()): string | null {
+  const [user, exp, sig] = value.split(".");
+  const expiresAt = Number(exp);
+  if (!USER_NAME.test(user || "") || !Number.isFinite(expiresAt) || expiresAt <= now || !sig) return null;
+  return safeEqual(sig, sign(config.sessionSecret, `session:${user}:${expiresAt}`)) ? user : null;
+}
+
+export function checkPassword(config: AuthConfig, attempt: unknown): boolean {
+  return !!config.password && typeof attempt === "string" && safeEqual(attempt, config.password);
+}
+
+export function sessionCookie(req: Request, value: string, maxAgeMs: number) {
+  const secure = new URL(req.url).protocol === "https:" || req.headers.get("x-forwarded-proto") === "https";
+  return [
+    `${SESSION_COOKIE}=${value}`,
+    "Path=/",
+    "HttpOnly",
+    "SameSite=Lax",
+    `Max-Age=${Math.max(0, Math.floor(maxAgeMs / 1000))}`,
+    ...(secure ? ["Secure"] : []),
+  ].join("; ");
+}
+
+function readCookie(req: Request, name: string): string | null {
+  for (const part of (req.headers.get("cookie") || "").split(";")) {
+    const [k, ...v] = part.trim().split("=");
+    if (k === name) return v.join("=");
+  }
+  return null;
+}
+
+// The caller's address as reported by our own proxies, or null without any: the
+// client can write X-Forwarded-For itself, so only the hops our proxies appended
+// count, and the right-most one they didn't vouch for is the client
+export function clientIp(req: Request): string | null {
+  const hops = getAuthConfig().trustProxy;
+  if (!hops) return null;
+  const forwarded = (req.headers.get("x-forwarded-for") || "")
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+  if (forwarded.length) return forwarded[Math.max(0, forwarded.length - hops)];
+  return req.headers.get("x-real-ip") || null;
+}
+
+const OPEN: Principal = { kind: "open", name: "anonymous", scopes: SCOPES };
+
+// EventSource can't send headers, so the stream also takes ?access_token=
+export function authenticate(req: Request, opts: { queryToken?: boolean } = {}): Principal | null {
+  const config = getAuthConfig();
+  if (!config.enabled) return OPEN;
+
+  const header = req.headers.get("authorization") || "";
+  const bearer = /^Bearer\s+(.+)$/i.exec(header)?.[1].trim();
+  const presented = bearer || (opts.queryToken ? new URL(req.url).searchParams.get("access_token") : null);
+  if (presented) {
+    const digest = sha256Hex(presented);
+    const token = config.tokens.find((t) => safeEqual(t.sha256, digest));
+    return token ? { kind: "token", name: token.name, scopes: token.scopes, token } : null;
+  }
+
+  const session = readCookie(req, SESSION_COOKIE);
+  const user = session ? verifySessionToken(config, session) : null;
+  return user ? { kind: "session", name: user, scopes: SCOPES } : null;
+}
+
+// Whose saved data a request reads and writes: tokens get their own namespace
+export function principalUser(p: Principal): string {
+  if (p.kind === "token") return `token:${p.name}`;
+  return p.kind === "session" ? p.name : DEFAULT_USER;
+}
+
+export function hasScope(p: Principal | null, scope: Scope) {
+  return !!p && p.scopes.includes(scope);
+}
+
+function sameOrigin(req: Request) {
+  const origin = req.headers.get("origin");
+  if (!origin) return true; // not a browser form/fetch from another site
+  const host = req.headers.get("x-forwarded-host") || req.headers.get("host");
+  try {
+    return new URL(origin).host === host;
+  } catch {
+    return false;
+  }
+}
+
+export function rateLimited(result: { limit: number; retryAfterMs: number }, error = "Rate limit exceeded") {
+  return NextResponse.json(
+    { error },
+    {
+      status: 429,
+      headers: {
+        "Retry-After": String(Math.ceil(result.retryAfterMs / 1000)),
+        "X-RateLimit-Limit": String(result.limit),
+        "X-RateLimit-Remaining": "0",
+      },
+    }
+  );
+}
+
+// Route guard: the caller, or the response to send instead.
+//   const auth = guard(req, "wallets:read");
+//   if (auth instanceof NextResponse) return auth;
+export function guard(req: Request, scope: Scope, opts: { queryToken?: boolean } = {}): Principal | NextResponse {
+  const p = authenticate(req, opts);
+  if (!p) {
+    return NextResponse.json(
+      { error: "Authentication required" },
+      { status: 401, headers: { "WWW-Authenticate": 'Bearer realm="pm-tracker"' } }
+    );
+  }
+  if (!hasScope(p, scope)) return NextResponse.json({ error: `Missing scope: ${scope}` }, { status: 403 });
+
+  // cookies ride along on cross-site requests; tokens don't
+  if (p.kind === "session" && req.method !== "GET" && !sameOrigin(req)) {
+    return NextResponse.json({ error: "Cross-origin request refused" }, { status: 403 });
+  }
+
+  if (p.token) {
+    const result = getRateLimiter().take(`token:${p.token.sha256}`, p.token.rateLimit);
+    if (!result.ok) return rateLimited(result);
+  }
+  return p;
+}
+
+// brute-force protection for the login form: per address when we know it, and
+// across all of them so rotating (or unknown) addresses don't lift the limit
+export function takeLoginAttempt(req: Request) {
+  const ip = clientIp(req);
+  if (ip) {
+    const perIp = getRateLimiter().take(`login:${ip}`, LOGIN_ATTEMPTS_PER_MINUTE);
+    if (!perIp.ok) return perIp;
+  }
+  return getRateLimiter().take("login:*", LOGIN_ATTEMPTS_PER_MINUTE_ALL);
+}
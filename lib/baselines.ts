@@ -0,0 +1,134 @@
+import type { TradeEvent } from "@/lib/events";
+
+// Per-wallet trade-size baselines: the last N trade sizes (usdc) of each wallet,
+// so "big" can mean big for that trader rather than a fixed dollar floor.
+
+export type BaselineOptions = {
+  windowSize: number; // trade sizes kept per wallet
+  minSamples: number; // trades needed before a wallet's trades are scored
+  unusualScore: number; // anomalyScore at or above which a trade is flagged unusual
+};
+
+export type Baseline = {
+  wallet: string;
+  samples: number;
+  medianUsd: number;
+  p75Usd: number;
+  p90Usd: number;
+  p99Usd: number;
+};
+
+export type Anomaly = {
+  anomalyScore: number; // trade size as a multiple of the wallet's median
+  sizePercentile: number; // 0..100, share of the wallet's recent trades that were smaller
+  unusual: boolean;
+};
+
+export type BaselineBook = {
+  options: BaselineOptions;
+  // scores against the baseline as it was before this trade, then adds it
+  observe(e: TradeEvent): Anomaly | null;
+  get(wallet: string): Baseline | null;
+  list(): Baseline[];
+  snapshot(): Record<string, number[]>;
+  restore(samples: Record<string, number[]>): void;
+};
+
+export function baselineOptionsFromEnv(): BaselineOptions {
+  const windowSize = Number(process.env.BASELINE_WINDOW);
+  const minSamples = Number(process.env.BASELINE_MIN_SAMPLES);
+  const unusualScore = Number(process.env.ANOMALY_THRESHOLD);
+  return {
+    windowSize: Number.isFinite(windowSize) && windowSize >= 10 ? Math.floor(windowSize) : 200,
+    minSamples: Number.isFinite(minSamples) && minSamples >= 1 ? Math.floor(minSamples) : 10,
+    unusualScore: Number.isFinite(unusualScore) && unusualScore > 1 ? unusualScore : 5,
+  };
+}
+
+// linear interpolation between closest ranks; `sorted` must be ascending
+export function percentile(sorted: number[], p: number): number {
+  if (!sorted.length) return NaN;
+  const idx = (sorted.length - 1) * p;
+  const lo = Math.floor(idx);
+  const hi = Math.ceil(idx);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (idx - lo);
+}
+
+export function createBaselineBook(options: BaselineOptions): BaselineBook {
+  // oldest first
+  const sizes = new Map<string, number[]>();
+
+  function summarize(wallet: string, values: number[]): Baseline {
+    const sorted = [...values].sort((a, b) => a - b);
+    return {
+      wallet,
+      samples: sorted.length,
+      medianUsd: percentile(sorted, 0.5),
+      p75Usd: percentile(sorted, 0.75),
+      p90Usd: percentile(sorted, 0.9),
+      p99Usd: percentile(sorted, 0.99),
+    };
+  }
+
+  return {
+    options,
+
+    observe(e) {
+      const usd = e.usdc ?? NaN;
+      if (!Number.isFinite(usd) || usd <= 0) return null;
+
+      const wallet = e.wallet.toLowerCase();
+      const values = sizes.get(wallet) ?? [];
+
+      let anomaly: Anomaly | null = null;
+      if (values.length >= options.minSamples) {
+        const sorted = [...values].sort((a, b) => a - b);
+        const median = percentile(sorted, 0.5);
+        const smaller = values.filter((v) => v < usd).length;
+        const score = median > 0 ? usd / median : 0;
+        anomaly = {
+          anomalyScore: Math.round(score * 100) / 100,
+          sizePercentile: Math.round((smaller / values.length) * 1000) / 10,
+          unusual: score >= options.unusualScore,
+        };
+      }
+
+      values.push(usd);
+      if (values.length > options.windowSize) values.splice(0, values.length - options.windowSize);
+      sizes.set(wallet, values);
+      return anomaly;
+    },
+
+    get(wallet) {
+      const values = sizes.get(wallet.toLowerCase());
+      return values?.length ? summarize(wallet.toLowerCase(), values) : null;
+    },
+
+    list() {
+      return Array.from(sizes.entries()).map(([wallet, values]) => summarize(wallet, values));
+    },
+
+    snapshot() {
+      return Object.fromEntries(Array.from(sizes.entries()).map(([w, v]) => [w, [...v]]));
+    },
+
+    restore(samples) {
+      sizes.clear();
+      for (const [wallet, values] of Object.entries(samples || {})) {
+        const clean = (Array.isArray(values) ? values : []).map(Number).filter((v) => Number.isFinite(v) && v > 0);
+        if (clean.length) sizes.set(wallet.toLowerCase(), clean.slice(-options.windowSize));
+      }
+    },
+  };
+}
+
+declare global {
+  // eslint-disable-next-line no-var
+  var __PM_BASELINES__: BaselineBook | undefined;
+}
+
+// Shared between the poller (stream route) and /api/baselines
+export function getBaselineBook(): BaselineBook {
+  if (!globalThis.__PM_BASELINES__) globalThis.__PM_BASELINES__ = createBaselineBook(baselineOptionsFromEnv());
+  return globalThis.__PM_BASELINES__!;
+}
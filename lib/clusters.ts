@@ -0,0 +1,129 @@
+import type { TradeEvent } from "@/lib/events";
+
+export type Cluster = {
+  id: string;
+  marketKey: string;
+  title?: string;
+  slug?: string;
+  outcome?: string;
+  outcomeIndex?: number;
+  side: "BUY" | "SELL";
+  traders: string[];
+  wallets: string[];
+  totalUsd: number;
+  avgPrice?: number; // share-weighted
+  eventIds: string[];
+  firstAt: number;
+  lastAt: number;
+  detectedAt: number;
+};
+
+export type ClusterOptions = {
+  windowMs: number;
+  minTraders: number;
+};
+
+export type ClusterDetector = {
+  // returns clusters that formed or grew because of these events
+  ingest(events: TradeEvent[], now?: number): { cluster: Cluster; events: TradeEvent[] }[];
+};
+
+type Group = {
+  events: TradeEvent[];
+  firedWith: number; // distinct wallets at the last emitted cluster
+};
+
+export function clusterOptionsFromEnv(): ClusterOptions {
+  const windowMs = Number(process.env.CLUSTER_WINDOW_MS);
+  const minTraders = Number(process.env.CLUSTER_MIN_TRADERS);
+  return {
+    windowMs: Number.isFinite(windowMs) && windowMs > 0 ? windowMs : 10 * 60_000,
+    minTraders: Number.isFinite(minTraders) && minTraders >= 2 ? Math.floor(minTraders) : 3,
+  };
+}
+
+function groupKey(e: TradeEvent) {
+  const market = e.conditionId || e.slug || e.title || "unknown";
+  return `${market}|${(e.outcome || "").toLowerCase()}|${e.side}`;
+}
+
+function summarize(key: string, events: TradeEvent[], now: number): Cluster {
+  const first = events[0];
+  const wallets = Array.from(new Set(events.map((e) => e.wallet.toLowerCase())));
+  const traders = Array.from(new Set(events.map((e) => e.trader)));
+
+  let totalUsd = 0;
+  let shares = 0;
+  let weighted = 0;
+  for (const e of events) {
+    totalUsd += e.usdc ?? 0;
+    if (Number.isFinite(e.shares ?? NaN) && Number.isFinite(e.price ?? NaN)) {
+      shares += e.shares!;
+      weighted += e.shares! * e.price!;
+    }
+  }
+
+  const lastAt = Math.max(...events.map((e) => e.timestampMs));
+  return {
+    id: `${key}|${first.timestampMs}|${wallets.length}`,
+    marketKey: first.conditionId || first.slug || first.title || "unknown",
+    title: first.title,
+    slug: first.slug,
+    outcome: first.outcome,
+    outcomeIndex: first.outcomeIndex,
+    side: first.side,
+    traders,
+    wallets,
+    totalUsd,
+    avgPrice: shares > 0 ? weighted / shares : undefined,
+    eventIds: events.map((e) => e.id),
+    firstAt: first.timestampMs,
+    lastAt,
+    detectedAt: now,
+  };
+}
+
+// Groups trades by market + outcome + side over a sliding window (on trade time)
+// and reports a cluster once enough distinct wallets are in, then again each time
+// another wallet joins.
+export function createClusterDetector(opts: ClusterOptions): ClusterDetector {
+  const groups = new Map<string, Group>();
+
+  return {
+    ingest(events, now = Date.now()) {
+      const touched = new Set<string>();
+      for (const e of events) {
+        const key = groupKey(e);
+        let g = groups.get(key);
+        if (!g) {
+          g = { events: [], firedWith: 0 };
+          groups.set(key, g);
+        }
+        g.events.push(e);
+        touched.add(key);
+      }
+
+      const out: { cluster: Cluster; events: TradeEvent[] }[] = [];
+      for (const [key, g] of Array.from(groups.entries())) {
+        g.events.sort((a, b) => a.timestampMs - b.timestampMs);
+        const newest = g.events[g.events.length - 1]?.timestampMs ?? 0;
+        g.events = g.events.filter((e) => e.timestampMs >= newest - opts.windowMs);
+
+        // idle groups age out on wall-clock time
+        if (!g.events.length || newest < now - opts.windowMs * 2) {
+          groups.delete(key);
+          continue;
+        }
+        if (!touched.has(key)) continue;
+
+        const distinct = new Set(g.events.map((e) => e.wallet.toLowerCase())).size;
+        if (distinct < g.firedWith) g.firedWith = distinct; // window slid; allow re-arming
+        if (distinct >= opts.minTraders && distinct > g.firedWith) {
+          g.firedWith = distinct;
+          out.push({ cluster: summarize(key, g.events, now), events: [...g.events] });
+        }
+      }
+      return out;
+    },
+  };
+}
@@ -0,0 +1,109 @@
+import type { Cluster } from "@/lib/clusters";
+import type { TradeEvent } from "@/lib/events";
+import type { Sequenced } from "@/lib/replay-buffer";
+import type { TrackedWallet } from "@/lib/sheets";
+
+// What the leader's poller publishes and every stream instance fans out to its
+// own SSE clients.
+
+export type BusMessage =
+  | { type: "events"; entries: Sequenced<TradeEvent>[] }
+  | { type: "cluster"; cluster: Cluster; events: TradeEvent[] } // events: the trades that formed it
+  | { type: "walletsAdded" | "walletsRemoved"; wallets: TrackedWallet[] };
+
+export type EventBus = {
+  kind: string;
+  publish(msg: BusMessage): Promise<void>;
+  subscribe(handler: (msg: BusMessage) => void): () => void;
+  close(): Promise<void>;
+};
+
+function deliver(handlers: Set<(msg: BusMessage) => void>, msg: BusMessage) {
+  for (const h of Array.from(handlers)) {
+    try {
+      h(msg);
+    } catch (err) {
+      console.error("[bus] subscriber failed", err);
+    }
+  }
+}
+
+// Single process only: publishers and subscribers must share this instance
+export function createInProcessEventBus(): EventBus {
+  const handlers = new Set<(msg: BusMessage) => void>();
+  return {
+    kind: "memory",
+    async publish(msg) {
+      deliver(handlers, msg);
+    },
+    subscribe(handler) {
+      handlers.add(handler);
+      return () => handlers.delete(handler);
+    },
+    async close() {
+      handlers.clear();
+    },
+  };
+}
+
+// Redis pub/sub (or anything speaking its protocol, e.g. Valkey, KeyDB, Dragonfly)
+export async function createRedisEventBus(url: string, channel: string): Promise<EventBus> {
+  const { default: Redis } = await import("ioredis");
+  const pub = new Redis(url);
+  // a connection in subscribe mode can't publish, so it gets its own
+  const sub = new Redis(url);
+  const handlers = new Set<(msg: BusMessage) => void>();
+
+  sub.on("message", (ch: string, raw: string) => {
+    if (ch !== channel) return;
+    try {
+      deliver(handlers, JSON.parse(raw));
+    } catch (err) {
+      console.error("[bus] dropped malformed message", err);
+    }
+  });
+  pub.on("error", (err) => console.error("[bus] redis publisher error", err));
+  sub.on("error", (err) => console.error("[bus] redis subscriber error", err));
+  await sub.subscribe(channel);
+
+  return {
+    kind: "redis",
+    async publish(msg) {
+      await pub.publish(channel, JSON.stringify(msg));
+    },
+    subscribe(handler) {
+      handlers.add(handler);
+      return () => handlers.delete(handler);
+    },
+    async close() {
+      handlers.clear();
+      await Promise.allSettled([pub.quit(), sub.quit()]);
+    },
+  };
+}
+
+export function createEventBusFromEnv(): Promise<EventBus> {
+  const kind = (process.env.EVENT_BUS || "memory").toLowerCase();
+  if (kind === "memory") return Promise.resolve(createInProcessEventBus());
+  if (kind !== "redis") throw new Error(`Unknown EVENT_BUS: ${kind}`);
+
+  const url = process.env.REDIS_URL;
+  if (!url) throw new Error("EVENT_BUS=redis needs REDIS_URL");
+  return createRedisEventBus(url, process.env.EVENT_BUS_CHANNEL || "pm:events");
+}
+
+declare global {
+  // eslint-disable-next-line no-var
+  var __PM_EVENT_BUS__: Promise<EventBus> | undefined;
+}
+
+// Shared by the poller (publisher) and the stream route (subscriber) in this process
+export function getEventBus(): Promise<EventBus> {
+  if (!globalThis.__PM_EVENT_BUS__) {
+    globalThis.__PM_EVENT_BUS__ = createEventBusFromEnv().catch((err) => {
+      globalThis.__PM_EVENT_BUS__ = undefined; // retry on the next call
+      throw err;
+    });
+  }
+  return globalThis.__PM_EVENT_BUS__;
+}
@@ -0,0 +1,71 @@
+import type { PolymarketTrade } from "@/lib/polymarket";
+import type { PositionUpdate } from "@/lib/positions";
+import type { TrackedWallet } from "@/lib/sheets";
+import { currentOutcomePrice, getMarketClient } from "@/lib/markets";
+
+export type TradeEvent = {
+  id: string; // stable-ish id for dedupe
+  wallet: string;
+  trader: string;
+  traderTags?: string[];
+  voiceAlias?: string; // spoken instead of `trader`
+  muted?: boolean; // shown but never spoken: a muted wallet, or a trade under its minUsd
+  side: "BUY" | "SELL";
+  outcome?: string; // real outcome label, never coerced to Yes/No
+  outcomeIndex?: number;
+  title?: string;
+  slug?: string;
+  conditionId?: string;
+  shares?: number;
+  usdc?: number;
+  price?: number;
+  timestampMs: number;
+  tx?: string;
+  // market metadata from Gamma, when it could be fetched
+  category?: string;
+  endDateMs?: number;
+  marketUrl?: string;
+  marketVolume?: number;
+  currentPrice?: number; // the traded outcome's price when the event was emitted
+  position?: PositionUpdate; // what this trade did to the trader's position
+  // size against this wallet's own recent trades; absent until it has a baseline
+  anomalyScore?: number; // multiple of the wallet's median trade size
+  sizePercentile?: number;
+  unusual?: boolean;
+  // from the market/keyword watchlist rather than the wallet list
+  untracked?: boolean; // the wallet isn't tracked; `trader` is its profile name or short address
+  watches?: string[]; // labels of the watches the trade matched
+};
+
+// Shared by the live poller and the history backfill
+export async function toTradeEvent(t: PolymarketTrade, w: TrackedWallet): Promise<TradeEvent> {
+  const tx = t.transactionHash || "";
+  const id = tx ? `${t.proxyWallet}:${tx}` : `${t.proxyWallet}:${t.timestamp}:${t.side}:${t.price}:${t.size}`;
+  const market = await getMarketClient().get({ conditionId: t.conditionId, slug: t.slug });
+  const usdc = typeof t.usdcSize === "number" ? t.usdcSize : undefined;
+  const belowFloor = w.minUsd !== undefined && (usdc ?? 0) < w.minUsd;
+  return {
+    id,
+    wallet: t.proxyWallet,
+    trader: w.trader,
+    traderTags: w.tags,
+    voiceAlias: w.voiceAlias,
+    muted: w.muted || belowFloor || undefined,
+    side: t.side,
+    outcome: t.outcome,
+    outcomeIndex: t.outcomeIndex,
+    title: t.title,
+    slug: t.slug,
+    conditionId: t.conditionId,
+    shares: typeof t.size === "number" ? t.size : undefined,
+    usdc,
+    price: typeof t.price === "number" ? t.price : undefined,
+    timestampMs: t.timestamp,
+    tx: tx || undefined,
+    category: market?.category,
+    endDateMs: market?.endDateMs,
+    marketUrl: market?.url,
+    marketVolume: market?.volume,
+    currentPrice: market ? currentOutcomePrice(market, t.outcome, t.outcomeIndex) : undefined,
+  };
+}
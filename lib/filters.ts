@@ -0,0 +1,112 @@
+import type { TradeEvent } from "@/lib/events";
+
+export type StreamFilter = {
+  minUsd?: number;
+  side?: "BUY" | "SELL";
+  traders?: string[]; // lowercased
+  wallets?: string[]; // lowercased
+  market?: string; // lowercased; matches slug or title substring
+  minPrice?: number;
+  maxPrice?: number;
+  minAnomaly?: number; // anomalyScore floor: size as a multiple of the trader's median
+  unusual?: boolean; // only trades flagged unusual for their trader
+  source?: "wallets" | "watchlist"; // tracked wallets' trades, or ones matching a watch
+};
+
+function listParam(params: URLSearchParams, name: string): string[] | undefined {
+  // accepts ?trader=a&trader=b as well as ?trader=a,b
+  const values = params
+    .getAll(name)
+    .flatMap((v) => v.split(","))
+    .map((v) => v.trim().toLowerCase())
+    .filter(Boolean);
+  return values.length ? values : undefined;
+}
+
+function numParam(params: URLSearchParams, name: string): number | undefined {
+  const raw = params.get(name);
+  if (raw === null || raw.trim() === "") return undefined;
+  const n = Number(raw);
+  return Number.isFinite(n) ? n : undefined;
+}
+
+export function parseStreamFilter(params: URLSearchParams): StreamFilter {
+  const filter: StreamFilter = {};
+
+  // legacy toggle: when filterBig is sent, minUsd only applies with filterBig=1
+  const filterBig = params.get("filterBig");
+  const minUsd = numParam(params, "minUsd");
+  if (minUsd !== undefined && minUsd > 0 && (filterBig === null || filterBig === "1")) {
+    filter.minUsd = minUsd;
+  }
+
+  const side = (params.get("side") || "").toUpperCase();
+  if (side === "BUY" || side === "SELL") filter.side = side;
+
+  const traders = listParam(params, "trader");
+  if (traders) filter.traders = traders;
+
+  const wallets = listParam(params, "wallet");
+  if (wallets) filter.wallets = wallets;
+
+  const market = (params.get("market") || "").trim().toLowerCase();
+  if (market) filter.market = market;
+
+  const minPrice = numParam(params, "minPrice");
+  if (minPrice !== undefined) filter.minPrice = minPrice;
+
+  const maxPrice = numParam(params, "maxPrice");
+  if (maxPrice !== undefined) filter.maxPrice = maxPrice;
+
+  const minAnomaly = numParam(params, "minAnomaly");
+  if (minAnomaly !== undefined && minAnomaly > 0) filter.minAnomaly = minAnomaly;
+
+  const unusual = params.get("unusual");
+  if (unusual === "1" || unusual === "true") filter.unusual = true;
+
+  const source = (params.get("source") || "").toLowerCase();
+  if (source === "wallets" || source === "watchlist") filter.source = source;
+
+  return filter;
+}
+
+// Same rules for filters written as plain objects (config files, JSON bodies);
+// accepts both `trader` and `traders` style keys.
+export function filterFromObject(raw: Record<string, unknown> | undefined): StreamFilter {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(raw || {})) {
+    const name = key === "traders" ? "trader" : key === "wallets" ? "wallet" : key;
+    for (const v of Array.isArray(value) ? value : [value]) {
+      if (v !== undefined && v !== null) params.append(name, String(v));
+    }
+  }
+  return parseStreamFilter(params);
+}
+
+export function matchesFilter(e: TradeEvent, f: StreamFilter): boolean {
+  if (f.minUsd !== undefined && (e.usdc ?? 0) < f.minUsd) return false;
+  if (f.side && e.side !== f.side) return false;
+  if (f.traders && !f.traders.includes(e.trader.toLowerCase())) return false;
+  if (f.wallets && !f.wallets.includes(e.wallet.toLowerCase())) return false;
+
+  if (f.market) {
+    const slug = (e.slug || "").toLowerCase();
+    const title = (e.title || "").toLowerCase();
+    if (slug !== f.market && !title.includes(f.market)) return false;
+  }
+
+  if (f.minPrice !== undefined || f.maxPrice !== undefined) {
+    if (!Number.isFinite(e.price ?? NaN)) return false;
+    if (f.minPrice !== undefined && e.price! < f.minPrice) return false;
+    if (f.maxPrice !== undefined && e.price! > f.maxPrice) return false;
+  }
+
+  // trades without a baseline yet never count as anomalous
+  if (f.minAnomaly !== undefined && (e.anomalyScore ?? 0) < f.minAnomaly) return false;
+  if (f.unusual && !e.unusual) return false;
+
+  if (f.source === "wallets" && e.untracked) return false;
+  if (f.source === "watchlist" && !e.watches?.length) return false;
+
+  return true;
+}
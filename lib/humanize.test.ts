@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { integerToWords, spokenCents, spokenDollars, spokenPrice, spokenQuantity } from "@/lib/humanize";
+
+describe("integerToWords", () => {
+  it.each([
+    [0, "zero"],
+    [7, "seven"],
+    [40, "forty"],
+    [95, "ninety-five"],
+    [100, "one hundred"],
+    [1_015, "one thousand fifteen"],
+    [2_000_305, "two million three hundred five"],
+    [-12, "minus twelve"],
+  ])("%d -> %s", (n, words) => {
+    expect(integerToWords(n)).toBe(words);
+  });
+});
+
+describe("spokenQuantity", () => {
+  it.each([
+    [9_999, "nine thousand nine hundred ninety-nine"],
+    [12_345, "twelve thousand"],
+    [999_499, "nine hundred ninety-nine thousand"],
+    [999_999, "one million"],
+    [1_250_000, "one point three million"],
+    [2_000_000, "two million"],
+    [999_949_999, "nine hundred ninety-nine point nine million"],
+    [999_950_000, "one billion"],
+    [2_340_000_000, "two point three billion"],
+    [-999_999, "minus one million"],
+  ])("%d -> %s", (n, words) => {
+    expect(spokenQuantity(n)).toBe(words);
+  });
+});
+
+describe("spokenCents", () => {
+  it.each([
+    [0.004, "less than a cent"],
+    [0.01, "one cent"],
+    [0.42, "forty-two cents"],
+  ])("%d -> %s", (n, words) => {
+    expect(spokenCents(n)).toBe(words);
+  });
+});
+
+describe("spokenDollars", () => {
+  it.each([
+    [0.5, "fifty cents"],
+    [0.996, "one dollar"],
+    [1, "one dollar"],
+    [1.01, "one dollar and one cent"],
+    [12.5, "twelve dollars and fifty cents"],
+    [99.996, "one hundred dollars"],
+    [150, "one hundred fifty dollars"],
+    [12_345, "twelve thousand dollars"],
+    [-3.25, "minus three dollars and twenty-five cents"],
+  ])("%d -> %s", (n, words) => {
+    expect(spokenDollars(n)).toBe(words);
+  });
+});
+
+describe("spokenPrice", () => {
+  it("speaks share prices in cents, carrying into a dollar", () => {
+    expect(spokenPrice(0.42)).toBe("forty-two cents");
+    expect(spokenPrice(0.996)).toBe("one dollar");
+  });
+});
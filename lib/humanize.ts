@@ -0,0 +1,104 @@
+// Number → English words for the speech engine ("twelve thousand dollars", "sixty-two cents").
+
+const ONES = [
+  "zero",
+  "one",
+  "two",
+  "three",
+  "four",
+  "five",
+  "six",
+  "seven",
+  "eight",
+  "nine",
+  "ten",
+  "eleven",
+  "twelve",
+  "thirteen",
+  "fourteen",
+  "fifteen",
+  "sixteen",
+  "seventeen",
+  "eighteen",
+  "nineteen",
+];
+const TENS = ["", "", "twenty", "thirty", "forty", "fifty", "sixty", "seventy", "eighty", "ninety"];
+const SCALES: [number, string][] = [
+  [1e12, "trillion"],
+  [1e9, "billion"],
+  [1e6, "million"],
+  [1e3, "thousand"],
+];
+
+function underThousand(n: number): string {
+  const parts: string[] = [];
+  if (n >= 100) {
+    parts.push(`${ONES[Math.floor(n / 100)]} hundred`);
+    n %= 100;
+  }
+  if (n >= 20) {
+    const t = TENS[Math.floor(n / 10)];
+    parts.push(n % 10 ? `${t}-${ONES[n % 10]}` : t);
+  } else if (n > 0 || !parts.length) {
+    parts.push(ONES[n]);
+  }
+  return parts.join(" ");
+}
+
+export function integerToWords(value: number): string {
+  let n = Math.round(Math.abs(value));
+  if (n === 0) return "zero";
+
+  const parts: string[] = [];
+  for (const [size, name] of SCALES) {
+    if (n >= size) {
+      parts.push(`${underThousand(Math.floor(n / size))} ${name}`);
+      n %= size;
+    }
+  }
+  if (n > 0) parts.push(underThousand(n));
+  return (value < 0 ? "minus " : "") + parts.join(" ");
+}
+
+// Rounds to what a listener cares about: exact below 10k, then whole thousands,
+// then one decimal of millions/billions ("one point two million"). The unit is
+// picked after rounding, so 999,999 is "one million", not "one thousand thousand".
+export function spokenQuantity(n: number): string {
+  const abs = Math.abs(n);
+  if (abs < 10_000) return integerToWords(n);
+  if (Math.round(abs / 1000) < 1000) return `${integerToWords(Math.round(n / 1000))} thousand`;
+
+  const [size, name] = Math.round(abs / 1e5) < 10_000 ? [1e6, "million"] : [1e9, "billion"];
+  const scaled = Math.round((n / size) * 10) / 10;
+  const whole = Math.trunc(scaled);
+  const tenth = Math.round(Math.abs(scaled - whole) * 10);
+  return tenth ? `${integerToWords(whole)} point ${ONES[tenth]} ${name}` : `${integerToWords(whole)} ${name}`;
+}
+
+export function spokenCents(n: number): string {
+  const cents = Math.round(n * 100);
+  if (cents === 0) return "less than a cent";
+  return cents === 1 ? "one cent" : `${integerToWords(cents)} cents`;
+}
+
+export function spokenDollars(n: number): string {
+  // counted in whole cents first, so $99.996 carries into "one hundred dollars"
+  const cents = Math.round(Math.abs(n) * 100);
+  if (cents < 100) return spokenCents(n);
+
+  if (cents < 10_000) {
+    const dollars = Math.floor(cents / 100);
+    const rest = cents % 100;
+    const d = `${integerToWords(n < 0 ? -dollars : dollars)} ${dollars === 1 ? "dollar" : "dollars"}`;
+    if (!rest) return d;
+    return `${d} and ${rest === 1 ? "one cent" : `${integerToWords(rest)} cents`}`;
+  }
+
+  return `${spokenQuantity(n)} dollars`;
+}
+
+// Share prices are quoted in cents on Polymarket, so speak them that way
+// (spokenDollars falls back to cents below a dollar, after rounding)
+export function spokenPrice(p: number): string {
+  return spokenDollars(p);
+}
@@ -0,0 +1,11 @@
+// A bad request body, or an edit that conflicts with what's stored; routes
+// answer with its message and `status`
+export class InputError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "InputError";
+    this.status = status;
+  }
+}
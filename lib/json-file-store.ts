@@ -0,0 +1,89 @@
+import { randomUUID } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+
+// A value kept in one JSON file. It's re-read whenever the file's mtime moves,
+// so the poller (maybe on another instance) sees edits made through any of
+// them. Edits are serialized within one process only: two instances editing
+// the same file at once can overwrite each other's change.
+
+export type JsonFileStore<T> = {
+  read(): Promise<T>;
+  // read-modify-write under one queue so concurrent requests don't drop each
+  // other's edits; `fn` edits a copy that replaces the value once it's on disk
+  mutate<R>(fn: (draft: T) => R | Promise<R>): Promise<R>;
+};
+
+export type JsonFileStoreOptions<T> = {
+  name: string; // for logs
+  file: () => string;
+  decode: (data: any) => T; // data is null when the file doesn't exist yet
+  encode: (value: T) => unknown;
+};
+
+export function createJsonFileStore<T>(opts: JsonFileStoreOptions<T>): JsonFileStore<T> {
+  let value = opts.decode(null);
+  let mtimeMs = -1;
+  let writing: Promise<void> = Promise.resolve();
+
+  async function refresh() {
+    const file = path.resolve(opts.file());
+    let next = 0;
+    try {
+      next = (await fs.stat(file)).mtimeMs;
+    } catch (err: any) {
+      if (err?.code !== "ENOENT") throw err;
+    }
+    if (next === mtimeMs) return;
+
+    let data: any = null;
+    if (next) {
+      try {
+        data = JSON.parse(await fs.readFile(file, "utf8"));
+      } catch (err) {
+        // keep serving what we had rather than dropping everything
+        console.error(`[${opts.name}] failed to read ${file}`, err);
+        return;
+      }
+    }
+    value = opts.decode(data);
+    mtimeMs = next;
+  }
+
+  async function persist(next: T) {
+    const file = path.resolve(opts.file());
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    // write-then-rename, with a name no concurrent writer shares
+    const tmp = `${file}.${process.pid}.${randomUUID().slice(0, 8)}.tmp`;
+    try {
+      await fs.writeFile(tmp, JSON.stringify(opts.encode(next), null, 2), "utf8");
+      await fs.rename(tmp, file);
+    } catch (err) {
+      await fs.rm(tmp, { force: true }).catch(() => {});
+      throw err;
+    }
+    mtimeMs = (await fs.stat(file)).mtimeMs;
+  }
+
+  return {
+    async read() {
+      await refresh();
+      return value;
+    },
+    mutate(fn) {
+      const run = writing.then(async () => {
+        await refresh();
+        const draft = structuredClone(value);
+        const result = await fn(draft);
+        await persist(draft);
+        value = draft;
+        return result;
+      });
+      writing = run.then(
+        () => {},
+        () => {}
+      );
+      return run;
+    },
+  };
+}
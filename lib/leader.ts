@@ -0,0 +1,182 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { randomUUID } from "crypto";
+
+// Only one instance should poll Polymarket. Instances compete for a lease in a
+// shared backend; the holder renews it well before it expires.
+
+export type LeaderLock = {
+  kind: string;
+  // acquires a free or expired lease, or renews one `owner` already holds
+  acquire(owner: string, ttlMs: number): Promise<boolean>;
+  release(owner: string): Promise<void>;
+};
+
+export type LeaderElector = {
+  ownerId: string;
+  isLeader(): boolean;
+  onChange(listener: (leader: boolean) => void): () => void;
+  // resolves once the first attempt has settled
+  start(): Promise<void>;
+  stop(): Promise<void>;
+};
+
+type Lease = { owner: string; expiresAt: number };
+
+// Every instance is leader: for a single process, or when something else
+// (e.g. a one-replica deployment) already guarantees there is only one
+export function createNoopLeaderLock(): LeaderLock {
+  return {
+    kind: "none",
+    async acquire() {
+      return true;
+    },
+    async release() {},
+  };
+}
+
+// For instances sharing a filesystem (several processes on one host)
+export function createFileLeaderLock(filePath: string): LeaderLock {
+  const abs = path.resolve(filePath);
+
+  async function read(): Promise<Lease | null> {
+    try {
+      const data = JSON.parse(await fs.readFile(abs, "utf8"));
+      return typeof data?.owner === "string" && Number.isFinite(data?.expiresAt) ? data : null;
+    } catch (err: any) {
+      if (err?.code === "ENOENT" || err instanceof SyntaxError) return null;
+      throw err;
+    }
+  }
+
+  function held(lease: Lease | null, owner: string) {
+    return lease?.owner === owner && lease.expiresAt > Date.now();
+  }
+
+  // Runs a check-and-write of the lease only while holding an exclusively
+  // created guard file, so two instances can't both see an expired lease and
+  // both take it. Resolves to null when another instance holds the guard.
+  async function guarded<T>(staleMs: number, fn: () => Promise<T>): Promise<T | null> {
+    await fs.mkdir(path.dirname(abs), { recursive: true });
+    const guard = `${abs}.guard`;
+    let handle: fs.FileHandle;
+    try {
+      handle = await fs.open(guard, "wx");
+    } catch (err: any) {
+      if (err?.code !== "EEXIST") throw err;
+      // left behind by an instance that died holding it; retried next tick
+      const stat = await fs.stat(guard).catch(() => null);
+      if (stat && Date.now() - stat.mtimeMs > staleMs) await fs.rm(guard, { force: true });
+      return null;
+    }
+    try {
+      return await fn();
+    } finally {
+      await handle.close();
+      await fs.rm(guard, { force: true });
+    }
+  }
+
+  return {
+    kind: "file",
+    async acquire(owner, ttlMs) {
+      const won = await guarded(ttlMs, async () => {
+        const current = await read();
+        if (current && current.owner !== owner && current.expiresAt > Date.now()) return false;
+
+        const tmp = `${abs}.${process.pid}.tmp`;
+        await fs.writeFile(tmp, JSON.stringify({ owner, expiresAt: Date.now() + ttlMs }), "utf8");
+        await fs.rename(tmp, abs);
+        return true;
+      });
+      // someone else is checking; a lease we hold stays ours until it expires
+      return won ?? held(await read(), owner);
+    },
+    async release(owner) {
+      await guarded(Infinity, async () => {
+        if ((await read())?.owner === owner) await fs.rm(abs, { force: true });
+      });
+    },
+  };
+}
+
+// Lua keeps check-and-renew / check-and-delete atomic
+const RENEW = `if redis.call("get", KEYS[1]) == ARGV[1] then return redis.call("pexpire", KEYS[1], ARGV[2]) else return 0 end`;
+const RELEASE = `if redis.call("get", KEYS[1]) == ARGV[1] then return redis.call("del", KEYS[1]) else return 0 end`;
+
+export async function createRedisLeaderLock(url: string, key: string): Promise<LeaderLock> {
+  const { default: Redis } = await import("ioredis");
+  const redis = new Redis(url);
+  redis.on("error", (err) => console.error("[leader] redis error", err));
+
+  return {
+    kind: "redis",
+    async acquire(owner, ttlMs) {
+      if ((await redis.set(key, owner, "PX", ttlMs, "NX")) === "OK") return true;
+      return Number(await redis.eval(RENEW, 1, key, owner, String(ttlMs))) === 1;
+    },
+    async release(owner) {
+      await redis.eval(RELEASE, 1, key, owner);
+    },
+  };
+}
+
+export function createLeaderLockFromEnv(): Promise<LeaderLock> {
+  const kind = (process.env.LEADER_LOCK || "file").toLowerCase();
+  if (kind === "none") return Promise.resolve(createNoopLeaderLock());
+  if (kind === "file")
+    return Promise.resolve(createFileLeaderLock(process.env.LEADER_LOCK_FILE || ".data/poller.lock"));
+  if (kind !== "redis") throw new Error(`Unknown LEADER_LOCK: ${kind}`);
+
+  const url = process.env.REDIS_URL;
+  if (!url) throw new Error("LEADER_LOCK=redis needs REDIS_URL");
+  return createRedisLeaderLock(url, process.env.LEADER_LOCK_KEY || "pm:poller-leader");
+}
+
+export function createLeaderElector(lock: LeaderLock, opts: { ttlMs: number; renewMs: number }): LeaderElector {
+  const ownerId = `${os.hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+  const listeners = new Set<(leader: boolean) => void>();
+  let leader = false;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let running = false;
+
+  function set(next: boolean) {
+    if (next === leader) return;
+    leader = next;
+    for (const l of Array.from(listeners)) l(next);
+  }
+
+  async function tick() {
+    try {
+      set(await lock.acquire(ownerId, opts.ttlMs));
+    } catch (err) {
+      // a lease we can't renew may already belong to someone else
+      console.error("[leader] lock backend error", err);
+      set(false);
+    }
+    if (running) timer = setTimeout(tick, opts.renewMs);
+  }
+
+  return {
+    ownerId,
+    isLeader() {
+      return leader;
+    },
+    onChange(listener) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    async start() {
+      if (running) return;
+      running = true;
+      await tick();
+    },
+    async stop() {
+      running = false;
+      if (timer) clearTimeout(timer);
+      if (leader) await lock.release(ownerId).catch(() => {});
+      set(false);
+    },
+  };
+}
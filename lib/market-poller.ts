@@ -0,0 +1,69 @@
+import { shortAddress } from "@/lib/address";
+import type { TradeEvent } from "@/lib/events";
+import { fetchLatestMarketTrades, type PolymarketTrade } from "@/lib/polymarket";
+import type { WalletScheduler } from "@/lib/scheduler";
+import type { TrackedWallet } from "@/lib/sheets";
+import type { TradeCursor } from "@/lib/trade-cursor";
+import { matchWatches, type Watch } from "@/lib/watchlist";
+
+// Polls the Data API's market-wide trade feed for the watchlist, next to the
+// per-wallet polling. Two feeds, each with its own cursor and schedule: the
+// watched markets' trades, and the latest large trades anywhere (for keywords).
+// Trades by tracked wallets are left to the wallet poller.
+
+const FEED_LIMIT = 100;
+
+type Feed = { key: string; watches: Watch[]; markets?: string[] };
+
+function feeds(watches: Watch[]): Feed[] {
+  const markets = watches.filter((w) => w.kind === "market");
+  const keywords = watches.filter((w) => w.kind === "keyword");
+  const out: Feed[] = [];
+  if (markets.length) {
+    const ids = Array.from(new Set(markets.map((w) => w.conditionId!)));
+    out.push({ key: "watch:markets", watches: markets, markets: ids });
+  }
+  if (keywords.length) out.push({ key: "watch:keywords", watches: keywords });
+  return out;
+}
+
+// scheduler keys, due alongside the wallets
+export function watchFeedKeys(watches: Watch[]): string[] {
+  return feeds(watches).map((f) => f.key);
+}
+
+function untrackedWallet(t: PolymarketTrade): TrackedWallet {
+  return { wallet: t.proxyWallet, trader: t.name || shortAddress(t.proxyWallet) };
+}
+
+export async function pollWatchlist(
+  cursor: TradeCursor,
+  scheduler: WalletScheduler,
+  watches: Watch[],
+  tracked: Set<string>, // lowercase addresses
+  due: Set<string>
+): Promise<{ fresh: number; events: TradeEvent[] }> {
+  let fresh = 0;
+  const events: TradeEvent[] = [];
+  for (const feed of feeds(watches)) {
+    if (!due.has(feed.key) || scheduler.isPaused()) continue;
+    try {
+      const trades = await fetchLatestMarketTrades({
+        markets: feed.markets,
+        minUsd: Math.min(...feed.watches.map((w) => w.minUsd)),
+        limit: FEED_LIMIT,
+      });
+      const res = await cursor.takeFeed(feed.key, trades, (t) => {
+        if (tracked.has(t.proxyWallet.toLowerCase())) return null;
+        return matchWatches({ ...t, usdc: t.usdcSize }, feed.watches).length ? untrackedWallet(t) : null;
+      });
+      scheduler.recordSuccess(feed.key, res.fresh > 0);
+      fresh += res.fresh;
+      for (const e of res.events) events.push({ ...e, untracked: true });
+    } catch (err) {
+      scheduler.recordError(feed.key, err);
+      console.error(`[watchlist] failed to poll ${feed.key}`, err);
+    }
+  }
+  return { fresh, events };
+}
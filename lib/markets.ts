@@ -0,0 +1,225 @@
+import { observeApiRequest } from "@/lib/metrics";
+import { PolymarketApiError, parseRetryAfter } from "@/lib/polymarket";
+
+// Market metadata from the Gamma API (https://gamma-api.polymarket.com), keyed
+// by conditionId or slug, behind a small LRU + TTL cache.
+
+export type MarketInfo = {
+  conditionId?: string;
+  slug?: string;
+  eventSlug?: string;
+  question?: string;
+  category?: string;
+  endDateMs?: number;
+  url?: string;
+  outcomes: string[];
+  outcomePrices: number[]; // same order as outcomes
+  bestBid?: number; // first outcome's book
+  bestAsk?: number;
+  volume?: number;
+  closed?: boolean;
+  fetchedAt: number;
+};
+
+export type MarketRef = { conditionId?: string; slug?: string };
+
+export type MarketClientOptions = {
+  ttlMs: number;
+  maxEntries: number;
+  maxInFlight: number;
+  fetchImpl?: typeof fetch;
+};
+
+export type MarketClient = {
+  // null when the market is unknown or Gamma is unreachable; enrichment is best-effort
+  get(ref: MarketRef): Promise<MarketInfo | null>;
+  size(): number;
+};
+
+const GAMMA_URL = "https://gamma-api.polymarket.com";
+
+function num(v: unknown): number | undefined {
+  if (v === null || v === undefined || v === "") return undefined;
+  const n = Number(v);
+  return Number.isFinite(n) ? n : undefined;
+}
+
+// Gamma returns outcomes/outcomePrices as JSON-encoded strings
+function list(v: unknown): string[] {
+  if (Array.isArray(v)) return v.map(String);
+  if (typeof v !== "string" || !v.trim()) return [];
+  try {
+    const parsed = JSON.parse(v);
+    return Array.isArray(parsed) ? parsed.map(String) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function marketUrl(eventSlug?: string, slug?: string): string | undefined {
+  if (eventSlug) return `https://polymarket.com/event/${eventSlug}${slug && slug !== eventSlug ? `/${slug}` : ""}`;
+  if (slug) return `https://polymarket.com/market/${slug}`;
+  return undefined;
+}
+
+export function parseGammaMarket(x: any, now = Date.now()): MarketInfo {
+  const event = Array.isArray(x?.events) ? x.events[0] : undefined;
+  const endDate = Date.parse(x?.endDate || x?.endDateIso || event?.endDate || "");
+  const slug = x?.slug || undefined;
+  const eventSlug = event?.slug || undefined;
+
+  return {
+    conditionId: x?.conditionId || undefined,
+    slug,
+    eventSlug,
+    question: x?.question || undefined,
+    category: x?.category || event?.category || undefined,
+    endDateMs: Number.isFinite(endDate) ? endDate : undefined,
+    url: marketUrl(eventSlug, slug),
+    outcomes: list(x?.outcomes),
+    outcomePrices: list(x?.outcomePrices).map((p) => Number(p)),
+    bestBid: num(x?.bestBid),
+    bestAsk: num(x?.bestAsk),
+    volume: num(x?.volumeNum ?? x?.volume),
+    closed: typeof x?.closed === "boolean" ? x.closed : undefined,
+    fetchedAt: now,
+  };
+}
+
+export async function fetchMarket(ref: MarketRef, fetchImpl: typeof fetch = fetch): Promise<MarketInfo | null> {
+  const url = new URL("/markets", GAMMA_URL);
+  if (ref.conditionId) url.searchParams.set("condition_ids", ref.conditionId);
+  else if (ref.slug) url.searchParams.set("slug", ref.slug);
+  else return null;
+
+  const startedAt = Date.now();
+  let res: Response;
+  try {
+    res = await fetchImpl(url.toString(), { cache: "no-store" });
+  } catch (err) {
+    observeApiRequest("gamma_markets", startedAt, "error");
+    throw err;
+  }
+  observeApiRequest("gamma_markets", startedAt, res.status);
+  if (!res.ok) throw new PolymarketApiError(res.status, parseRetryAfter(res.headers.get("retry-after")));
+
+  const data = (await res.json()) as any[];
+  const match = (data || []).find((m) =>
+    ref.conditionId ? String(m?.conditionId).toLowerCase() === ref.conditionId.toLowerCase() : m?.slug === ref.slug
+  );
+  return match ? parseGammaMarket(match) : null;
+}
+
+// Mid of the book when there is one, else Gamma's last outcome price. The book
+// is quoted for the first outcome; on a binary market the second is 1 - mid.
+export function currentOutcomePrice(m: MarketInfo, outcome?: string, outcomeIndex?: number): number | undefined {
+  let idx = Number.isInteger(outcomeIndex) ? outcomeIndex! : -1;
+  if (idx < 0 && outcome) idx = m.outcomes.findIndex((o) => o.toLowerCase() === outcome.toLowerCase());
+  if (idx < 0) return undefined;
+
+  if (m.outcomes.length === 2 && m.bestBid !== undefined && m.bestAsk !== undefined && m.bestAsk > 0) {
+    const mid = (m.bestBid + m.bestAsk) / 2;
+    return idx === 0 ? mid : 1 - mid;
+  }
+  const p = m.outcomePrices[idx];
+  return Number.isFinite(p) ? p : undefined;
+}
+
+function refKeys(ref: MarketRef) {
+  const keys: string[] = [];
+  if (ref.conditionId) keys.push(`c:${ref.conditionId.toLowerCase()}`);
+  if (ref.slug) keys.push(`s:${ref.slug}`);
+  return keys;
+}
+
+export function createMarketClient(opts: MarketClientOptions): MarketClient {
+  const doFetch = opts.fetchImpl ?? fetch;
+  // Map iteration order doubles as recency order: re-inserting on hit moves a key to the end
+  const cache = new Map<string, { value: MarketInfo | null; expiresAt: number }>();
+  const inFlight = new Map<string, Promise<MarketInfo | null>>();
+  let running = 0;
+  const waiting: (() => void)[] = [];
+
+  function remember(keys: string[], value: MarketInfo | null) {
+    const expiresAt = Date.now() + opts.ttlMs;
+    for (const k of keys) {
+      cache.delete(k);
+      cache.set(k, { value, expiresAt });
+    }
+    while (cache.size > opts.maxEntries) cache.delete(cache.keys().next().value!);
+  }
+
+  function cached(key: string) {
+    const hit = cache.get(key);
+    if (!hit) return undefined;
+    if (hit.expiresAt <= Date.now()) {
+      cache.delete(key);
+      return undefined;
+    }
+    cache.delete(key);
+    cache.set(key, hit);
+    return hit;
+  }
+
+  async function limited<T>(fn: () => Promise<T>): Promise<T> {
+    if (running >= opts.maxInFlight) await new Promise<void>((r) => waiting.push(r));
+    running++;
+    try {
+      return await fn();
+    } finally {
+      running--;
+      waiting.shift()?.();
+    }
+  }
+
+  return {
+    async get(ref) {
+      const keys = refKeys(ref);
+      if (!keys.length) return null;
+
+      for (const k of keys) {
+        const hit = cached(k);
+        if (hit) return hit.value;
+      }
+
+      const pending = inFlight.get(keys[0]);
+      if (pending) return pending;
+
+      const p = limited(() => fetchMarket(ref, doFetch))
+        .then((m) => {
+          remember(m ? [...keys, ...refKeys(m)] : keys, m);
+          return m;
+        })
+        .catch(() => {
+          // cache the miss too, so a Gamma outage costs one request per market per TTL
+          remember(keys, null);
+          return null;
+        })
+        .finally(() => inFlight.delete(keys[0]));
+      inFlight.set(keys[0], p);
+      return p;
+    },
+
+    size() {
+      return cache.size;
+    },
+  };
+}
+
+declare global {
+  // eslint-disable-next-line no-var
+  var __PM_MARKETS__: MarketClient | undefined;
+}
+
+export function getMarketClient(): MarketClient {
+  if (!globalThis.__PM_MARKETS__) {
+    const ttlMs = Number(process.env.MARKETS_CACHE_TTL_MS);
+    const maxEntries = Number(process.env.MARKETS_CACHE_SIZE);
+    globalThis.__PM_MARKETS__ = createMarketClient({
+      ttlMs: Number.isFinite(ttlMs) && ttlMs > 0 ? ttlMs : 60_000,
+      maxEntries: Number.isFinite(maxEntries) && maxEntries > 0 ? Math.floor(maxEntries) : 1000,
+      maxInFlight: 4,
+    });
+  }
+  return globalThis.__PM_MARKETS__;
+}
@@ -0,0 +1,164 @@
+// Minimal Prometheus-style metrics: counters, gauges and histograms with labels,
+// rendered in the text exposition format for GET /api/metrics.
+
+export type Labels = Record<string, string>;
+
+type Sample = { labels: Labels; value: number };
+
+export type Counter = { inc(labels?: Labels, by?: number): void };
+export type Gauge = { set(value: number, labels?: Labels): void };
+export type Histogram = { observe(value: number, labels?: Labels): void };
+
+type Metric = {
+  name: string;
+  help: string;
+  type: "counter" | "gauge" | "histogram";
+  render(): string[];
+};
+
+export type MetricsRegistry = {
+  counter(name: string, help: string): Counter;
+  // `collect` is read at scrape time, for values owned by someone else (e.g. client count)
+  gauge(name: string, help: string, collect?: () => Sample[] | number): Gauge;
+  histogram(name: string, help: string, buckets?: number[]): Histogram;
+  render(): string;
+};
+
+export const DEFAULT_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+function escapeLabel(v: string) {
+  return v.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+}
+
+function labelKey(labels: Labels) {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+function fmtLabels(labels: Labels) {
+  const entries = Object.entries(labels);
+  if (!entries.length) return "";
+  return `{${entries.map(([k, v]) => `${k}="${escapeLabel(v)}"`).join(",")}}`;
+}
+
+function fmtValue(n: number) {
+  if (Number.isNaN(n)) return "NaN";
+  if (n === Infinity) return "+Inf";
+  if (n === -Infinity) return "-Inf";
+  return String(n);
+}
+
+export function createMetricsRegistry(): MetricsRegistry {
+  const metrics = new Map<string, Metric>();
+
+  function register<T extends Metric>(m: T): T {
+    const existing = metrics.get(m.name);
+    if (existing) {
+      if (existing.type !== m.type) throw new Error(`Metric ${m.name} already registered as a ${existing.type}`);
+      return existing as T;
+    }
+    metrics.set(m.name, m);
+    return m;
+  }
+
+  return {
+    counter(name, help) {
+      const values = new Map<string, Sample>();
+      return register({
+        name,
+        help,
+        type: "counter" as const,
+        inc(labels: Labels = {}, by = 1) {
+          const key = labelKey(labels);
+          const s = values.get(key) ?? { labels, value: 0 };
+          s.value += by;
+          values.set(key, s);
+        },
+        render() {
+          return Array.from(values.values()).map((s) => `${name}${fmtLabels(s.labels)} ${fmtValue(s.value)}`);
+        },
+      });
+    },
+
+    gauge(name, help, collect) {
+      // a newer collector (e.g. after a dev-server reload) replaces the old one
+      if (collect) metrics.delete(name);
+      const values = new Map<string, Sample>();
+      return register({
+        name,
+        help,
+        type: "gauge" as const,
+        set(value: number, labels: Labels = {}) {
+          values.set(labelKey(labels), { labels, value });
+        },
+        render() {
+          let samples = Array.from(values.values());
+          if (collect) {
+            const c = collect();
+            samples = typeof c === "number" ? [{ labels: {}, value: c }] : c;
+          }
+          return samples.map((s) => `${name}${fmtLabels(s.labels)} ${fmtValue(s.value)}`);
+        },
+      });
+    },
+
+    histogram(name, help, buckets = DEFAULT_BUCKETS) {
+      const bounds = [...buckets].sort((a, b) => a - b);
+      const series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+      return register({
+        name,
+        help,
+        type: "histogram" as const,
+        observe(value: number, labels: Labels = {}) {
+          const key = labelKey(labels);
+          let s = series.get(key);
+          if (!s) {
+            s = { labels, counts: bounds.map(() => 0), sum: 0, count: 0 };
+            series.set(key, s);
+          }
+          bounds.forEach((b, i) => {
+            if (value <= b) s!.counts[i]++;
+          });
+          s.sum += value;
+          s.count++;
+        },
+        render() {
+          const lines: string[] = [];
+          for (const s of Array.from(series.values())) {
+            bounds.forEach((b, i) => {
+              lines.push(`${name}_bucket${fmtLabels({ ...s.labels, le: String(b) })} ${s.counts[i]}`);
+            });
+            lines.push(`${name}_bucket${fmtLabels({ ...s.labels, le: "+Inf" })} ${s.count}`);
+            lines.push(`${name}_sum${fmtLabels(s.labels)} ${fmtValue(s.sum)}`);
+            lines.push(`${name}_count${fmtLabels(s.labels)} ${s.count}`);
+          }
+          return lines;
+        },
+      });
+    },
+
+    render() {
+      const out: string[] = [];
+      for (const m of Array.from(metrics.values())) {
+        out.push(`# HELP ${m.name} ${m.help}`, `# TYPE ${m.name} ${m.type}`, ...m.render());
+      }
+      return out.join("\n") + "\n";
+    },
+  };
+}
+
+declare global {
+  // eslint-disable-next-line no-var
+  var __PM_METRICS__: MetricsRegistry | undefined;
+}
+
+export function getMetrics(): MetricsRegistry {
+  if (!globalThis.__PM_METRICS__) globalThis.__PM_METRICS__ = createMetricsRegistry();
+  return globalThis.__PM_METRICS__!;
+}
+
+// Data API / Gamma request latency, shared by every upstream client
+export function observeApiRequest(endpoint: string, startedAt: number, status: number | "error") {
+  getMetrics()
+    .histogram("pm_api_request_duration_seconds", "Latency of Polymarket API requests")
+    .observe((Date.now() - startedAt) / 1000, { endpoint, status: String(status) });
+}
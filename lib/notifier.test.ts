@@ -0,0 +1,188 @@
+import { createHmac } from "crypto";
+import { describe, expect, it, vi } from "vitest";
+import type { TradeEvent } from "@/lib/events";
+import {
+  buildRequests,
+  createNotifier,
+  parseNotifyTargets,
+  type DeadLetter,
+  type NotifierOptions,
+  type NotifyTarget,
+} from "@/lib/notifier";
+
+const event: TradeEvent = {
+  id: "t1",
+  wallet: "0xabc",
+  trader: "alice",
+  side: "BUY",
+  outcome: "Yes",
+  title: "Will it rain?",
+  shares: 100,
+  price: 0.25,
+  usdc: 25,
+  timestampMs: 1,
+};
+
+function target(extra: Partial<NotifyTarget> = {}): NotifyTarget {
+  return { name: "hook", type: "json", url: "http://127.0.0.1/hook", filter: {}, ...extra };
+}
+
+// A local stand-in for the webhook: answers each call with the next response
+function standIn(...responses: (() => Response)[]) {
+  const calls: { url: string; headers: Record<string, string>; body: string }[] = [];
+  const fetchImpl = vi.fn(async (url: any, init: any) => {
+    calls.push({ url: String(url), headers: init.headers, body: init.body });
+    const next = responses[Math.min(calls.length, responses.length) - 1];
+    return next();
+  });
+  return { calls, fetchImpl: fetchImpl as unknown as typeof fetch };
+}
+
+function notifier(targets: NotifyTarget[], fetchImpl: typeof fetch, extra: Partial<NotifierOptions> = {}) {
+  const deadLetters: DeadLetter[] = [];
+  const n = createNotifier(targets, {
+    maxAttempts: 3,
+    // long enough that a test only finishes in time if Retry-After is honoured
+    baseDelayMs: 60_000,
+    maxQueue: 10,
+    fetchImpl,
+    onDeadLetter: (d) => deadLetters.push(d),
+    ...extra,
+  });
+  return { n, deadLetters };
+}
+
+describe("createNotifier", () => {
+  it("retries a 429 after its Retry-After", async () => {
+    const hook = standIn(
+      () => new Response("slow down", { status: 429, headers: { "Retry-After": "0.01" } }),
+      () => new Response("ok")
+    );
+    const { n, deadLetters } = notifier([target()], hook.fetchImpl);
+
+    n.dispatch([event]);
+    await n.idle();
+
+    expect(hook.calls).toHaveLength(2);
+    expect(hook.calls[1].body).toBe(hook.calls[0].body);
+    expect(deadLetters).toEqual([]);
+  });
+
+  it("reads a retry_after from the body as chat APIs send it", async () => {
+    const hook = standIn(
+      () => Response.json({ parameters: { retry_after: 0.01 } }, { status: 429 }),
+      () => new Response("ok")
+    );
+    const { n, deadLetters } = notifier([target({ type: "telegram", botToken: "x", chatId: "1" })], hook.fetchImpl);
+
+    n.dispatch([event]);
+    await n.idle();
+
+    expect(hook.calls).toHaveLength(2);
+    expect(deadLetters).toEqual([]);
+  });
+
+  it("dead-letters a 4xx without retrying", async () => {
+    const hook = standIn(() => new Response("bad", { status: 400 }));
+    const { n, deadLetters } = notifier([target()], hook.fetchImpl);
+
+    n.dispatch([event]);
+    await n.idle();
+
+    expect(hook.calls).toHaveLength(1);
+    expect(deadLetters).toHaveLength(1);
+    expect(deadLetters[0]).toMatchObject({ target: "hook", attempts: 1, error: "HTTP 400" });
+    expect(JSON.parse(deadLetters[0].body).events[0].id).toBe("t1");
+  });
+
+  it("dead-letters after maxAttempts failures", async () => {
+    const hook = standIn(() => new Response("down", { status: 503 }));
+    const { n, deadLetters } = notifier([target()], hook.fetchImpl, { baseDelayMs: 1 });
+
+    n.dispatch([event]);
+    await n.idle();
+
+    expect(hook.calls).toHaveLength(3);
+    expect(deadLetters[0]).toMatchObject({ attempts: 3, error: "HTTP 503" });
+  });
+
+  it("signs json deliveries with the target's secret", async () => {
+    const hook = standIn(() => new Response("ok"));
+    const { n } = notifier([target({ secret: "s3cret" })], hook.fetchImpl);
+
+    n.dispatch([event]);
+    await n.idle();
+
+    const { headers, body } = hook.calls[0];
+    const ts = headers["X-Tracker-Timestamp"];
+    const expected = createHmac("sha256", "s3cret").update(`${ts}.${body}`).digest("hex");
+    expect(headers["X-Tracker-Signature"]).toBe(`sha256=${expected}`);
+  });
+
+  it("sends muted trades only when a rule forwards them", async () => {
+    const hook = standIn(() => new Response("ok"));
+    const { n } = notifier([target()], hook.fetchImpl);
+    const muted = { ...event, id: "t2", muted: true };
+
+    n.dispatch([event, muted]);
+    await n.idle();
+    expect(JSON.parse(hook.calls[0].body).events.map((e: TradeEvent) => e.id)).toEqual(["t1"]);
+
+    n.dispatch([muted], new Map([["hook", new Set([muted])]]));
+    await n.idle();
+    expect(JSON.parse(hook.calls[1].body).events.map((e: TradeEvent) => e.id)).toEqual(["t2"]);
+  });
+
+  it("applies each target's filter unless a rule forwards the trade", async () => {
+    const hook = standIn(() => new Response("ok"));
+    const { n } = notifier([target({ filter: { minUsd: 1_000 } })], hook.fetchImpl);
+
+    n.dispatch([event]);
+    await n.idle();
+    expect(hook.calls).toHaveLength(0);
+
+    n.dispatch([event], new Map([["hook", new Set([event])]]));
+    await n.idle();
+    expect(hook.calls).toHaveLength(1);
+  });
+});
+
+describe("buildRequests", () => {
+  it("posts chat text for discord, slack and telegram", () => {
+    const [discord] = buildRequests(target({ type: "discord" }), [event]);
+    expect(JSON.parse(discord.body).content).toBe("alice bought 100 Yes @ $0.250 ($25.00) — Will it rain?");
+
+    const [telegram] = buildRequests(target({ type: "telegram", url: undefined, botToken: "T", chatId: "-1" }), [
+      event,
+    ]);
+    expect(telegram.url).toBe("https://api.telegram.org/botT/sendMessage");
+    expect(JSON.parse(telegram.body)).toMatchObject({ chat_id: "-1" });
+  });
+
+  it("splits long batches under the chat API's limit", () => {
+    const many = Array.from({ length: 100 }, (_, i) => ({ ...event, id: `t${i}`, title: "x".repeat(50) }));
+    const reqs = buildRequests(target({ type: "discord" }), many);
+    expect(reqs.length).toBeGreaterThan(1);
+    for (const r of reqs) expect(JSON.parse(r.body).content.length).toBeLessThanOrEqual(2000);
+  });
+});
+
+describe("parseNotifyTargets", () => {
+  it("names targets by type and position by default", () => {
+    expect(parseNotifyTargets([{ url: "http://a" }, { type: "slack", url: "http://b" }]).map((t) => t.name)).toEqual([
+      "json-1",
+      "slack-2",
+    ]);
+  });
+
+  it.each([
+    [[{ type: "sms", url: "http://a" }], 'unknown type "sms"'],
+    [[{ type: "discord" }], "missing url"],
+    [[{ type: "telegram", botToken: "T" }], "missing chatId"],
+    [[{ type: "telegram", url: "http://proxy" }], "missing chatId"],
+    [[{ type: "telegram", chatId: "1" }], "missing botToken"],
+    [[{ url: "http://a" }, { url: "http://b", name: "json-1" }], 'duplicate name "json-1"'],
+  ])("rejects %j", (config, message) => {
+    expect(() => parseNotifyTargets(config)).toThrow(message);
+  });
+});
@@ -0,0 +1,271 @@
+import { createHmac } from "crypto";
+import { appendFileSync, mkdirSync, readFileSync } from "fs";
+import path from "path";
+import type { TradeEvent } from "@/lib/events";
+import { filterFromObject, matchesFilter, type StreamFilter } from "@/lib/filters";
+
+export type NotifyTargetType = "json" | "discord" | "slack" | "telegram";
+
+export type NotifyTarget = {
+  name: string;
+  type: NotifyTargetType;
+  url?: string; // required except for telegram, where it overrides the Bot API URL (chatId is still needed)
+  secret?: string; // json: HMAC-SHA256 signing key
+  botToken?: string; // telegram
+  chatId?: string; // telegram
+  filter: StreamFilter;
+};
+
+export type DeadLetter = {
+  at: number;
+  target: string;
+  attempts: number;
+  error: string;
+  body: string;
+};
+
+export type NotifierOptions = {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxQueue: number; // pending batches per target before we dead-letter instead
+  fetchImpl?: typeof fetch;
+  onDeadLetter?: (entry: DeadLetter) => void;
+};
+
+export type Notifier = {
+  targets: NotifyTarget[];
+  // `forwarded`: per target name, events an alert rule sends there whatever its filter
+  dispatch(events: TradeEvent[], forwarded?: Map<string, Set<TradeEvent>>): void;
+  // resolves once every queued delivery has finished (or been dead-lettered)
+  idle(): Promise<void>;
+};
+
+class DeliveryError extends Error {
+  retryable: boolean;
+  retryAfterMs?: number;
+
+  constructor(message: string, retryable: boolean, retryAfterMs?: number) {
+    super(message);
+    this.name = "DeliveryError";
+    this.retryable = retryable;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+function fmt(n: number, digits: number) {
+  return new Intl.NumberFormat("en-US", { minimumFractionDigits: digits, maximumFractionDigits: digits }).format(n);
+}
+
+export function formatEventText(e: TradeEvent): string {
+  const verb = e.side === "BUY" ? "bought" : "sold";
+  const shares = Number.isFinite(e.shares ?? NaN) ? `${fmt(e.shares!, 0)} ` : "";
+  const outcome = e.outcome ? `${e.outcome} ` : "";
+  const price = Number.isFinite(e.price ?? NaN) ? ` @ $${fmt(e.price!, 3)}` : "";
+  const usd = Number.isFinite(e.usdc ?? NaN) ? ` ($${fmt(e.usdc!, 2)})` : "";
+  return `${e.trader} ${verb} ${shares}${outcome}${price}${usd} — ${e.title || "Unknown market"}`.replace(/\s+/g, " ");
+}
+
+// Chat APIs cap message length, so long batches are split on line boundaries
+function chunkLines(lines: string[], maxLen: number): string[] {
+  const chunks: string[] = [];
+  let cur = "";
+  for (const line of lines) {
+    const next = cur ? `${cur}\n${line}` : line;
+    if (next.length > maxLen && cur) {
+      chunks.push(cur);
+      cur = line.slice(0, maxLen);
+    } else {
+      cur = next.slice(0, maxLen);
+    }
+  }
+  if (cur) chunks.push(cur);
+  return chunks;
+}
+
+type OutboundRequest = { url: string; headers: Record<string, string>; body: string };
+
+export function buildRequests(target: NotifyTarget, events: TradeEvent[], now = Date.now()): OutboundRequest[] {
+  const json = { "Content-Type": "application/json" };
+  const lines = events.map(formatEventText);
+
+  switch (target.type) {
+    case "json": {
+      const body = JSON.stringify({ type: "events", sentAt: now, events });
+      const headers: Record<string, string> = { ...json, "X-Tracker-Timestamp": String(now) };
+      if (target.secret) {
+        // signed over "<timestamp>.<body>" so a captured request can't be replayed later
+        const sig = createHmac("sha256", target.secret).update(`${now}.${body}`).digest("hex");
+        headers["X-Tracker-Signature"] = `sha256=${sig}`;
+      }
+      return [{ url: target.url!, headers, body }];
+    }
+    case "discord":
+      return chunkLines(lines, 2000).map((content) => ({
+        url: target.url!,
+        headers: json,
+        body: JSON.stringify({ content }),
+      }));
+    case "slack":
+      return chunkLines(lines, 3000).map((text) => ({ url: target.url!, headers: json, body: JSON.stringify({ text }) }));
+    case "telegram": {
+      const url = target.url || `https://api.telegram.org/bot${target.botToken}/sendMessage`;
+      return chunkLines(lines, 4096).map((text) => ({
+        url,
+        headers: json,
+        body: JSON.stringify({ chat_id: target.chatId, text, disable_web_page_preview: true }),
+      }));
+    }
+  }
+}
+
+async function retryAfterFrom(res: Response): Promise<number | undefined> {
+  const header = Number(res.headers.get("retry-after"));
+  if (Number.isFinite(header) && header > 0) return header * 1000;
+  // Discord and Telegram put it in the body instead
+  try {
+    const data = await res.clone().json();
+    const secs = Number(data?.retry_after ?? data?.parameters?.retry_after);
+    if (Number.isFinite(secs) && secs > 0) return secs * 1000;
+  } catch {}
+  return undefined;
+}
+
+export function createNotifier(targets: NotifyTarget[], opts: NotifierOptions): Notifier {
+  const doFetch = opts.fetchImpl ?? fetch;
+  const queues = new Map<string, { tail: Promise<void>; pending: number }>();
+  for (const t of targets) queues.set(t.name, { tail: Promise.resolve(), pending: 0 });
+
+  async function send(req: OutboundRequest) {
+    let res: Response;
+    try {
+      res = await doFetch(req.url, { method: "POST", headers: req.headers, body: req.body, cache: "no-store" });
+    } catch (err: any) {
+      throw new DeliveryError(String(err?.message || err), true);
+    }
+    if (res.ok) return;
+    // 408 / 429 / 5xx are worth retrying; other 4xx mean the request itself is wrong
+    const retryable = res.status === 408 || res.status === 429 || res.status >= 500;
+    throw new DeliveryError(`HTTP ${res.status}`, retryable, await retryAfterFrom(res));
+  }
+
+  async function deliver(target: NotifyTarget, req: OutboundRequest) {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await send(req);
+        return;
+      } catch (err: any) {
+        const retryable = err instanceof DeliveryError ? err.retryable : false;
+        if (!retryable || attempt >= opts.maxAttempts) {
+          opts.onDeadLetter?.({
+            at: Date.now(),
+            target: target.name,
+            attempts: attempt,
+            error: String(err?.message || err),
+            body: req.body,
+          });
+          return;
+        }
+        const backoff = opts.baseDelayMs * 2 ** (attempt - 1);
+        const wait = err.retryAfterMs ?? Math.round(backoff / 2 + Math.random() * (backoff / 2));
+        await new Promise((r) => setTimeout(r, wait));
+      }
+    }
+  }
+
+  return {
+    targets,
+
+    dispatch(events, forwarded) {
+      for (const target of targets) {
+        const extra = forwarded?.get(target.name);
+        // muted trades (a muted wallet, or under its minUsd) only go out when a rule forwards them
+        const matching = events.filter((e) => extra?.has(e) || (!e.muted && matchesFilter(e, target.filter)));
+        if (!matching.length) continue;
+
+        const q = queues.get(target.name)!;
+        for (const req of buildRequests(target, matching)) {
+          if (q.pending >= opts.maxQueue) {
+            opts.onDeadLetter?.({ at: Date.now(), target: target.name, attempts: 0, error: "queue full", body: req.body });
+            continue;
+          }
+          // one delivery at a time per target keeps messages in order
+          q.pending++;
+          q.tail = q.tail.then(() => deliver(target, req)).finally(() => q.pending--);
+        }
+      }
+    },
+
+    async idle() {
+      await Promise.all(Array.from(queues.values()).map((q) => q.tail));
+    },
+  };
+}
+
+export function parseNotifyTargets(raw: unknown): NotifyTarget[] {
+  const list = Array.isArray(raw) ? raw : Array.isArray((raw as any)?.targets) ? (raw as any).targets : [];
+  const targets: NotifyTarget[] = [];
+
+  list.forEach((t: any, idx: number) => {
+    const type = String(t?.type || "json").toLowerCase() as NotifyTargetType;
+    if (!["json", "discord", "slack", "telegram"].includes(type)) {
+      throw new Error(`Notify target ${idx}: unknown type "${t?.type}"`);
+    }
+    if (type === "telegram") {
+      if (t.chatId === undefined || t.chatId === null || t.chatId === "") {
+        throw new Error(`Notify target ${idx}: missing chatId`);
+      }
+      if (!t.url && !t.botToken) throw new Error(`Notify target ${idx}: missing botToken`);
+    } else if (!t?.url) {
+      throw new Error(`Notify target ${idx}: missing url`);
+    }
+    // queues, dead letters and rule forwards are keyed by name
+    const name = String(t.name || `${type}-${idx + 1}`);
+    if (targets.some((other) => other.name === name)) {
+      throw new Error(`Notify target ${idx}: duplicate name "${name}"`);
+    }
+    targets.push({
+      name,
+      type,
+      url: t.url,
+      secret: t.secret,
+      botToken: t.botToken,
+      chatId: t.chatId !== undefined ? String(t.chatId) : undefined,
+      filter: filterFromObject(t.filter),
+    });
+  });
+
+  return targets;
+}
+
+// NOTIFY_TARGETS holds the JSON inline; NOTIFY_CONFIG points at a JSON file
+export function loadNotifyTargets(): NotifyTarget[] {
+  const inline = process.env.NOTIFY_TARGETS;
+  if (inline) return parseNotifyTargets(JSON.parse(inline));
+
+  const file = process.env.NOTIFY_CONFIG;
+  if (file) return parseNotifyTargets(JSON.parse(readFileSync(path.resolve(file), "utf8")));
+
+  return [];
+}
+
+export function fileDeadLetterSink(filePath: string) {
+  const abs = path.resolve(filePath);
+  return (entry: DeadLetter) => {
+    console.error(`[notify] giving up on ${entry.target}: ${entry.error}`);
+    try {
+      mkdirSync(path.dirname(abs), { recursive: true });
+      appendFileSync(abs, JSON.stringify(entry) + "\n", "utf8");
+    } catch (err) {
+      console.error("[notify] failed to write dead letter", err);
+    }
+  };
+}
+
+export function createNotifierFromEnv(): Notifier {
+  return createNotifier(loadNotifyTargets(), {
+    maxAttempts: Math.max(1, Number(process.env.NOTIFY_MAX_ATTEMPTS) || 5),
+    baseDelayMs: Math.max(1, Number(process.env.NOTIFY_RETRY_BASE_MS) || 1000),
+    maxQueue: 100,
+    onDeadLetter: fileDeadLetterSink(process.env.NOTIFY_DEAD_LETTER_FILE || ".data/notify-dead-letter.jsonl"),
+  });
+}
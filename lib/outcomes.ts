@@ -0,0 +1,17 @@
+// Outcome identity for colouring. Binary markets keep the familiar green/red;
+// multi-outcome markets ("Trump", "Harris", "Over 2.5", …) get a stable palette
+// slot from the outcome index, or a hash of the label when the index is unknown.
+
+export type OutcomeTone = "yes" | "no" | number;
+
+export function outcomeTone(outcome: string | undefined, outcomeIndex?: number, paletteSize = 6): OutcomeTone {
+  const label = (outcome || "").trim().toLowerCase();
+  if (label === "yes") return "yes";
+  if (label === "no") return "no";
+
+  if (Number.isInteger(outcomeIndex) && outcomeIndex! >= 0) return outcomeIndex! % paletteSize;
+
+  let h = 0;
+  for (let i = 0; i < label.length; i++) h = (h * 31 + label.charCodeAt(i)) >>> 0;
+  return h % paletteSize;
+}
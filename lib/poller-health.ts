@@ -0,0 +1,232 @@
+import { getMetrics } from "@/lib/metrics";
+import { schedulerOptionsFromEnv } from "@/lib/scheduler";
+import type { WalletRegistryStatus } from "@/lib/wallet-registry";
+
+// What the poller has been doing, for GET /api/health, /api/metrics and the
+// page's degraded banner.
+
+export type WalletFetchStatus = {
+  wallet: string;
+  trader: string;
+  lastFetchAt: number;
+  lastSuccessAt: number;
+  lastError?: string;
+  errorCount: number;
+  consecutiveErrors: number;
+};
+
+// standby: running, but another instance holds the poller lease
+export type HealthStatus = "ok" | "degraded" | "idle" | "standby";
+
+export type HealthReport = {
+  status: HealthStatus;
+  reasons: string[];
+  now: number;
+  startedAt: number | null;
+  leader: boolean;
+  leaderSince: number | null;
+  lastPollAt: number;
+  lastSuccessfulPollAt: number;
+  lastLoopError?: string;
+  pausedUntil: number;
+  clients: number;
+  eventsEmitted: number;
+  walletSource: WalletRegistryStatus | null;
+  wallets: WalletFetchStatus[];
+};
+
+// live values owned by the poller and the stream route, read at report time
+export type PollerProbes = {
+  clients(): number;
+  walletSource(): WalletRegistryStatus;
+  pausedUntil(): number;
+};
+
+export type PollerHealth = {
+  bind(probes: Partial<PollerProbes>): void;
+  started(): void;
+  leader(isLeader: boolean): void;
+  stopped(err: unknown): void;
+  fetched(wallet: string, trader: string, err?: unknown): void;
+  // one pass over the due wallets; ok=false when the pass itself threw
+  polled(ok: boolean, err?: unknown): void;
+  emitted(count: number): void;
+  report(now?: number): HealthReport;
+};
+
+const WALLET_FAILING_AFTER = 3; // consecutive errors
+
+function message(err: unknown) {
+  return String((err as any)?.message || err);
+}
+
+export function createPollerHealth(staleMs: number): PollerHealth {
+  const metrics = getMetrics();
+  const wallets = new Map<string, WalletFetchStatus>();
+  let probes: Partial<PollerProbes> = {};
+  let startedAt: number | null = null;
+  let leaderSince: number | null = null;
+  let lastPollAt = 0;
+  let lastSuccessfulPollAt = 0;
+  let lastLoopError: { at: number; message: string } | null = null;
+  let eventsEmitted = 0;
+
+  const loops = metrics.counter("pm_poll_loops_total", "Poll passes, by result");
+  const fetches = metrics.counter("pm_wallet_fetches_total", "Data API fetches per wallet, by result");
+  const events = metrics.counter("pm_events_emitted_total", "Trade events emitted to the stream");
+
+  metrics.gauge("pm_poller_up", "1 while the poll loop is running", () => (startedAt !== null ? 1 : 0));
+  metrics.gauge("pm_poller_leader", "1 while this instance holds the poller lease", () =>
+    leaderSince !== null ? 1 : 0
+  );
+  metrics.gauge(
+    "pm_last_successful_poll_timestamp_seconds",
+    "Unix time of the last poll pass that completed",
+    () => lastSuccessfulPollAt / 1000
+  );
+  metrics.gauge("pm_sse_clients", "Connected stream clients", () => probes.clients?.() ?? 0);
+  metrics.gauge("pm_rate_limited", "1 while the Data API has asked us to back off", () =>
+    (probes.pausedUntil?.() ?? 0) > Date.now() ? 1 : 0
+  );
+  metrics.gauge(
+    "pm_tracked_wallets",
+    "Wallets in the current wallet list",
+    () => probes.walletSource?.().walletCount ?? 0
+  );
+  metrics.gauge(
+    "pm_wallet_source_last_success_timestamp_seconds",
+    "Unix time the wallet source was last loaded successfully",
+    () => (probes.walletSource?.().lastSuccessAt ?? 0) / 1000
+  );
+  metrics.gauge("pm_wallet_source_error", "1 when the last wallet source refresh failed", () =>
+    probes.walletSource?.().lastError ? 1 : 0
+  );
+  metrics.gauge("pm_wallet_last_fetch_timestamp_seconds", "Unix time of each wallet's last fetch", () =>
+    Array.from(wallets.values()).map((w) => ({
+      labels: { wallet: w.wallet, trader: w.trader },
+      value: w.lastFetchAt / 1000,
+    }))
+  );
+  metrics.gauge("pm_wallet_consecutive_errors", "Failed fetches in a row per wallet", () =>
+    Array.from(wallets.values()).map((w) => ({
+      labels: { wallet: w.wallet, trader: w.trader },
+      value: w.consecutiveErrors,
+    }))
+  );
+
+  return {
+    bind(p) {
+      probes = { ...probes, ...p };
+    },
+
+    started() {
+      startedAt = Date.now();
+    },
+
+    leader(isLeader) {
+      leaderSince = isLeader ? (leaderSince ?? Date.now()) : null;
+    },
+
+    stopped(err) {
+      startedAt = null;
+      leaderSince = null;
+      lastLoopError = { at: Date.now(), message: `poll loop stopped: ${message(err)}` };
+    },
+
+    fetched(wallet, trader, err) {
+      const key = wallet.toLowerCase();
+      const now = Date.now();
+      const w = wallets.get(key) ?? {
+        wallet,
+        trader,
+        lastFetchAt: 0,
+        lastSuccessAt: 0,
+        errorCount: 0,
+        consecutiveErrors: 0,
+      };
+      w.trader = trader;
+      w.lastFetchAt = now;
+      if (err === undefined) {
+        w.lastSuccessAt = now;
+        w.consecutiveErrors = 0;
+        w.lastError = undefined;
+      } else {
+        w.errorCount++;
+        w.consecutiveErrors++;
+        w.lastError = message(err);
+      }
+      wallets.set(key, w);
+      fetches.inc({ wallet: w.wallet, trader: w.trader, result: err === undefined ? "ok" : "error" });
+    },
+
+    polled(ok, err) {
+      const now = Date.now();
+      lastPollAt = now;
+      if (ok) lastSuccessfulPollAt = now;
+      else lastLoopError = { at: now, message: message(err) };
+      loops.inc({ result: ok ? "ok" : "error" });
+    },
+
+    emitted(count) {
+      eventsEmitted += count;
+      events.inc({}, count);
+    },
+
+    report(now = Date.now()) {
+      const source = probes.walletSource?.() ?? null;
+      const pausedUntil = probes.pausedUntil?.() ?? 0;
+      const list = Array.from(wallets.values());
+      const reasons: string[] = [];
+
+      if (startedAt !== null && leaderSince !== null) {
+        // a fresh leader gets a full stale window before its first pass counts as late
+        const since = Math.max(lastSuccessfulPollAt, leaderSince);
+        if (now - since > staleMs) reasons.push(`no successful poll for ${Math.round((now - since) / 1000)}s`);
+        if (lastLoopError && lastLoopError.at > lastSuccessfulPollAt)
+          reasons.push(`poll loop error: ${lastLoopError.message}`);
+        if (pausedUntil > now) reasons.push(`rate limited for ${Math.ceil((pausedUntil - now) / 1000)}s`);
+
+        const failing = list.filter((w) => w.consecutiveErrors >= WALLET_FAILING_AFTER);
+        if (failing.length && failing.length * 2 >= list.length) {
+          reasons.push(`${failing.length} of ${list.length} wallets failing`);
+        }
+        if (source?.lastError) reasons.push(`wallet source refresh failing: ${source.lastError}`);
+      } else if (startedAt === null && lastLoopError) {
+        reasons.push(lastLoopError.message);
+      }
+
+      return {
+        status: reasons.length ? "degraded" : startedAt === null ? "idle" : leaderSince === null ? "standby" : "ok",
+        reasons,
+        now,
+        startedAt,
+        leader: leaderSince !== null,
+        leaderSince,
+        lastPollAt,
+        lastSuccessfulPollAt,
+        lastLoopError: lastLoopError?.message,
+        pausedUntil,
+        clients: probes.clients?.() ?? 0,
+        eventsEmitted,
+        walletSource: source,
+        wallets: list,
+      };
+    },
+  };
+}
+
+declare global {
+  // eslint-disable-next-line no-var
+  var __PM_POLLER_HEALTH__: PollerHealth | undefined;
+}
+
+export function getPollerHealth(): PollerHealth {
+  if (!globalThis.__PM_POLLER_HEALTH__) {
+    // stale once a pass hasn't completed in two of the slowest wallet intervals
+    const staleMs = Number(process.env.HEALTH_STALE_MS);
+    globalThis.__PM_POLLER_HEALTH__ = createPollerHealth(
+      Number.isFinite(staleMs) && staleMs > 0 ? staleMs : schedulerOptionsFromEnv().maxIntervalMs * 2
+    );
+  }
+  return globalThis.__PM_POLLER_HEALTH__!;
+}
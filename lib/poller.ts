@@ -0,0 +1,342 @@
+import { fetchLatestTradesForWallet } from "@/lib/polymarket";
+import { mapWithConcurrency } from "@/lib/concurrency";
+import { getStateStore, type StateStore } from "@/lib/state-store";
+import { createReplayBuffer, type ReplayBuffer } from "@/lib/replay-buffer";
+import type { TradeEvent } from "@/lib/events";
+import { createManagedWalletSource } from "@/lib/wallet-store";
+import { createWalletRegistry, type WalletRegistry } from "@/lib/wallet-registry";
+import { createTradeCursor, type TradeCursor } from "@/lib/trade-cursor";
+import { createPositionBook, getPositionBook, type PositionBook } from "@/lib/positions";
+import { getTradeHistory } from "@/lib/trade-history";
+import { baselineOptionsFromEnv, createBaselineBook, getBaselineBook, type BaselineBook } from "@/lib/baselines";
+import { getPollerHealth } from "@/lib/poller-health";
+import { getEventBus, type EventBus } from "@/lib/event-bus";
+import { createLeaderElector, createLeaderLockFromEnv, type LeaderElector } from "@/lib/leader";
+import { clusterOptionsFromEnv, createClusterDetector, type ClusterDetector } from "@/lib/clusters";
+import { createNotifier, createNotifierFromEnv, type Notifier } from "@/lib/notifier";
+import { evaluateRules } from "@/lib/rules";
+import { listAllRules } from "@/lib/rule-store";
+import { createWalletScheduler, schedulerOptionsFromEnv, type WalletScheduler } from "@/lib/scheduler";
+import { listWatches, matchWatches, type Watch } from "@/lib/watchlist";
+import { pollWatchlist, watchFeedKeys } from "@/lib/market-poller";
+
+// The Data API poller. Every instance runs this loop, but only the one holding
+// the leader lease polls; it publishes what it finds to the event bus.
+
+export const REPLAY_BUFFER_SIZE = Number(process.env.REPLAY_BUFFER_SIZE || "500");
+const WALLETS_REFRESH_MS = Number(process.env.WALLETS_REFRESH_MS || "60000");
+const LEADER_LEASE_MS = Math.max(3000, Number(process.env.LEADER_LEASE_MS) || 30_000);
+
+type PollerState = {
+  cursor: TradeCursor;
+  replay: ReplayBuffer<TradeEvent>; // numbers events; persisted for the next leader
+  scheduler: WalletScheduler;
+  clusters: ClusterDetector;
+  notifier: Notifier;
+  wallets: WalletRegistry;
+  store: StateStore;
+  elector: LeaderElector | null;
+  restored: boolean; // state loaded since this instance last became leader
+  started: boolean;
+};
+
+declare global {
+  // eslint-disable-next-line no-var
+  var __PM_POLLER__: PollerState | undefined;
+}
+
+// a broken notify config shouldn't take the poller down with it
+function safeNotifier(): Notifier {
+  try {
+    return createNotifierFromEnv();
+  } catch (err) {
+    console.error("[notify] invalid notify config, webhooks disabled", err);
+    return createNotifier([], { maxAttempts: 1, baseDelayMs: 1, maxQueue: 0 });
+  }
+}
+
+// target name -> events that users' alert rules forward there
+async function ruleForwards(events: TradeEvent[]) {
+  const forwards = new Map<string, Set<TradeEvent>>();
+  let rules;
+  try {
+    rules = (await listAllRules()).filter((r) => r.actions.forward.length);
+  } catch (err) {
+    console.error("[rules] failed to load alert rules", err);
+    return forwards;
+  }
+  if (!rules.length) return forwards;
+
+  for (const e of events) {
+    for (const name of evaluateRules(e, rules).forward) {
+      if (!forwards.has(name)) forwards.set(name, new Set());
+      forwards.get(name)!.add(e);
+    }
+  }
+  return forwards;
+}
+
+function getState(): PollerState {
+  if (!globalThis.__PM_POLLER__) {
+    globalThis.__PM_POLLER__ = {
+      cursor: createTradeCursor(),
+      replay: createReplayBuffer<TradeEvent>(REPLAY_BUFFER_SIZE),
+      scheduler: createWalletScheduler(schedulerOptionsFromEnv()),
+      clusters: createClusterDetector(clusterOptionsFromEnv()),
+      notifier: safeNotifier(),
+      wallets: createWalletRegistry(createManagedWalletSource(), WALLETS_REFRESH_MS),
+      store: getStateStore(),
+      elector: null,
+      restored: false,
+      started: false,
+    };
+
+    const state = globalThis.__PM_POLLER__;
+    getPollerHealth().bind({
+      walletSource: () => state.wallets.status(),
+      pausedUntil: () => state.scheduler.pausedUntil(),
+    });
+  }
+  return globalThis.__PM_POLLER__!;
+}
+
+// Replaces everything in memory: a previous term's cursors may be behind
+// whatever another leader has saved since. Throws when the snapshot can't be
+// read, so the caller retries instead of polling from stale cursors.
+async function restoreState(state: PollerState) {
+  const snap = await state.store.load();
+  state.cursor = createTradeCursor(snap ?? undefined);
+  if (!snap) {
+    getBaselineBook().restore({});
+    await seedBaselines();
+    return;
+  }
+  state.replay = createReplayBuffer<TradeEvent>(REPLAY_BUFFER_SIZE, {
+    lastSeq: snap.eventSeq,
+    entries: snap.recentEvents,
+  });
+  getPositionBook().restore(snap.positions);
+  if (snap.baselines) getBaselineBook().restore(snap.baselines);
+  else {
+    getBaselineBook().restore({});
+    await seedBaselines();
+  }
+}
+
+// first run with baselines: learn them from whatever history (e.g. a backfill) exists
+async function seedBaselines() {
+  const baselines = getBaselineBook();
+  const history = await getTradeHistory().since(0);
+  for (let i = history.length - 1; i >= 0; i--) {
+    if (!history[i].untracked) baselines.observe(history[i]);
+  }
+}
+
+async function persistState(state: PollerState) {
+  try {
+    await state.store.save({
+      ...state.cursor.snapshot(),
+      eventSeq: state.replay.lastSeq(),
+      recentEvents: state.replay.entries(),
+      positions: getPositionBook().snapshot(),
+      baselines: getBaselineBook().snapshot(),
+      savedAt: Date.now(),
+    });
+  } catch (err) {
+    console.error("[poller] failed to persist poller state", err);
+  }
+}
+
+function publish(bus: EventBus, msg: Parameters<EventBus["publish"]>[0]) {
+  bus.publish(msg).catch((err) => console.error(`[poller] failed to publish ${msg.type}`, err));
+}
+
+// One pass over the wallets that are due
+async function pollOnce(state: PollerState, bus: EventBus, concurrency: number) {
+  const health = getPollerHealth();
+
+  // cached; the source is only re-checked every WALLETS_REFRESH_MS
+  const wallets = await state.wallets.get();
+
+  let watches: Watch[] = [];
+  try {
+    watches = await listWatches();
+  } catch (err) {
+    console.error("[watchlist] failed to load watchlist", err);
+  }
+
+  // Only wallets (and watchlist feeds) whose schedule says they're due (none while rate-limited)
+  const due = new Set(state.scheduler.due([...wallets.map((w) => w.wallet), ...watchFeedKeys(watches)]));
+
+  // Fetch each due wallet concurrently (bounded)
+  const fetched = await mapWithConcurrency(
+    wallets.filter((w) => due.has(w.wallet)),
+    concurrency,
+    async (w) => {
+      // a 429 from another worker pauses the rest of this batch
+      if (state.scheduler.isPaused()) return null;
+      try {
+        const trades = await fetchLatestTradesForWallet(w.wallet, 25);
+        health.fetched(w.wallet, w.trader);
+        return { ...w, trades };
+      } catch (err) {
+        state.scheduler.recordError(w.wallet, err);
+        health.fetched(w.wallet, w.trader, err);
+        return null;
+      }
+    }
+  );
+  const perWallet = fetched.filter((w): w is NonNullable<typeof w> => w !== null);
+
+  const newEvents: TradeEvent[] = [];
+  let cursorsMoved = false;
+
+  for (const w of perWallet) {
+    const { fresh, events } = await state.cursor.take(w, w.trades);
+    state.scheduler.recordSuccess(w.wallet, fresh > 0);
+    if (fresh > 0) cursorsMoved = true;
+    newEvents.push(...events);
+  }
+
+  if (watches.length) {
+    const tracked = new Set(wallets.map((w) => w.wallet.toLowerCase()));
+    const { fresh, events } = await pollWatchlist(state.cursor, state.scheduler, watches, tracked, due);
+    if (fresh > 0) cursorsMoved = true;
+    newEvents.push(...events);
+  }
+  // labelled whichever poller found them
+  for (const e of newEvents) {
+    const matched = matchWatches(e, watches);
+    if (matched.length) e.watches = matched.map((w) => w.label);
+  }
+
+  // Sort oldest -> newest so the log feels natural (and seq follows time)
+  newEvents.sort((a, b) => a.timestampMs - b.timestampMs);
+  const positions = getPositionBook();
+  const baselines = getBaselineBook();
+  const entries = newEvents.map((e) => {
+    // positions and size baselines are only kept for tracked wallets
+    if (!e.untracked) {
+      e.position = positions.apply(e) ?? undefined;
+      Object.assign(e, baselines.observe(e));
+    }
+    return { seq: state.replay.push(e), item: e };
+  });
+
+  // saved before publishing, so a stream instance that starts now and loads it
+  // can't miss what follows
+  if (cursorsMoved) await persistState(state);
+
+  if (!newEvents.length) return;
+
+  getTradeHistory()
+    .append(newEvents)
+    .catch((err) => console.error("[history] failed to record trades", err));
+
+  // webhook deliveries run in the background, in order per target
+  const forwards = state.notifier.targets.length ? await ruleForwards(newEvents) : undefined;
+  state.notifier.dispatch(newEvents, forwards);
+  health.emitted(newEvents.length);
+
+  publish(bus, { type: "events", entries });
+  for (const { cluster, events } of state.clusters.ingest(newEvents.filter((e) => !e.untracked)))
+    publish(bus, { type: "cluster", cluster, events });
+}
+
+async function pollLoop(state: PollerState) {
+  const health = getPollerHealth();
+  const POLL_MS = schedulerOptionsFromEnv().baseIntervalMs; // loop tick; per-wallet intervals adapt
+  const CONCURRENCY = Math.max(1, Number(process.env.POLL_CONCURRENCY) || 8); // avoids hammering API too hard
+
+  const bus = await getEventBus();
+  const lock = await createLeaderLockFromEnv();
+  // a Redis lock means instances elsewhere; a file lock is also the single-process default
+  if (lock.kind === "redis" && bus.kind === "memory") {
+    console.warn(
+      "[poller] LEADER_LOCK=redis with EVENT_BUS=memory: only the leader's stream clients get new trades; set EVENT_BUS=redis"
+    );
+  }
+  if (lock.kind === "redis" && state.store.kind !== "redis") {
+    console.warn(
+      `[poller] LEADER_LOCK=redis with STATE_STORE=${state.store.kind}: a leader on another host restores its own stale snapshot; set STATE_STORE=redis`
+    );
+  }
+  const elector = createLeaderElector(lock, {
+    ttlMs: LEADER_LEASE_MS,
+    renewMs: Math.floor(LEADER_LEASE_MS / 3),
+  });
+  state.elector = elector;
+  elector.onChange((leader) => {
+    console.log(`[poller] ${leader ? "acquired" : "lost"} the poller lease (${elector.ownerId})`);
+    health.leader(leader);
+    // reload on the next term: someone else may have polled in between
+    if (!leader) state.restored = false;
+  });
+
+  state.wallets.onChange((change) => {
+    if (change.added.length) publish(bus, { type: "walletsAdded", wallets: change.added });
+    if (change.removed.length) publish(bus, { type: "walletsRemoved", wallets: change.removed });
+  });
+
+  health.started();
+  await elector.start();
+
+  // eslint-disable-next-line no-constant-condition
+  while (true) {
+    if (elector.isLeader()) {
+      try {
+        // pick up cursors + dedupe ids from the previous leader (or process);
+        // until that works, don't poll: stale cursors re-announce old trades
+        if (!state.restored) {
+          await restoreState(state);
+          state.restored = true;
+        }
+        await pollOnce(state, bus, CONCURRENCY);
+        health.polled(true);
+      } catch (err) {
+        // keep polling; /api/health reports the pass as failed until one succeeds
+        console.error("[poller] poll pass failed", err);
+        health.polled(false, err);
+      }
+    }
+
+    await new Promise((r) => setTimeout(r, POLL_MS));
+  }
+}
+
+// Positions and baselines are folded in the leader's memory. Anywhere else (or
+// before the leader has restored its state) the last saved snapshot is current.
+function hasLiveBooks() {
+  const state = globalThis.__PM_POLLER__;
+  return !!state?.elector?.isLeader() && state.restored;
+}
+
+export async function currentPositionBook(): Promise<PositionBook> {
+  if (hasLiveBooks()) return getPositionBook();
+  const book = createPositionBook();
+  book.restore((await getStateStore().load())?.positions ?? []);
+  return book;
+}
+
+export async function currentBaselineBook(): Promise<BaselineBook> {
+  if (hasLiveBooks()) return getBaselineBook();
+  const book = createBaselineBook(baselineOptionsFromEnv());
+  book.restore((await getStateStore().load())?.baselines ?? {});
+  return book;
+}
+
+// Idempotent; called by the stream route on every connection
+export function startPoller() {
+  const state = getState();
+  if (state.started) return;
+  state.started = true;
+
+  pollLoop(state).catch((err) => {
+    // let the next request start it again
+    console.error("[poller] poll loop stopped", err);
+    state.elector?.stop().catch(() => {});
+    state.elector = null;
+    state.started = false;
+    getPollerHealth().stopped(err);
+  });
+}
@@ -1,49 +1,125 @@
+import { observeApiRequest } from "@/lib/metrics";
+
 export type PolymarketTrade = {
   proxyWallet: string;
   timestamp: number; // unix seconds or ms depending on endpoint; we normalize
   side: "BUY" | "SELL";
   title?: string;
-  outcome?: string; // "Yes" / "No"
+  outcome?: string; // outcome label as listed on the market: "Yes", "No", "Trump", "Over 2.5", …
+  outcomeIndex?: number; // position of that outcome in the market's outcome list
   size?: number; // shares
   usdcSize?: number; // dollars
   price?: number; // price per share
   transactionHash?: string;
   slug?: string;
+  conditionId?: string; // market id
+  name?: string; // the wallet's profile name or pseudonym, on market-wide trades
 };
 
+export class PolymarketApiError extends Error {
+  status: number;
+  retryAfterMs?: number;
+
+  constructor(status: number, retryAfterMs?: number) {
+    super(`Polymarket Data API error: ${status}`);
+    this.name = "PolymarketApiError";
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// Retry-After is either delta-seconds or an HTTP date
+export function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const secs = Number(header);
+  if (Number.isFinite(secs)) return Math.max(0, secs * 1000);
+  const at = Date.parse(header);
+  if (Number.isFinite(at)) return Math.max(0, at - Date.now());
+  return undefined;
+}
+
 function normalizeTimestamp(ts: number): number {
   // Some APIs return seconds, some milliseconds
   if (ts > 10_000_000_000) return ts; // ms
   return ts * 1000; // seconds -> ms
 }
 
-export async function fetchLatestTradesForWallet(wallet: string, limit = 20): Promise<PolymarketTrade[]> {
+function parseOutcomeIndex(v: unknown): number | undefined {
+  if (v === null || v === undefined || v === "") return undefined;
+  const n = Number(v);
+  return Number.isInteger(n) && n >= 0 ? n : undefined;
+}
+
+function num(v: unknown): number {
+  return typeof v === "number" ? v : Number(v);
+}
+
+function parseTrade(x: any, fallbackWallet: string): PolymarketTrade {
+  const size = num(x.size);
+  const price = num(x.price);
+  // /trades has no usdcSize, so the notional is derived there
+  const usdcSize = x.usdcSize !== undefined ? num(x.usdcSize) : size * price;
+  return {
+    proxyWallet: String(x.proxyWallet || fallbackWallet),
+    timestamp: normalizeTimestamp(Number(x.timestamp ?? 0)),
+    side: x.side === "SELL" ? "SELL" : "BUY",
+    title: x.title,
+    outcome: x.outcome,
+    outcomeIndex: parseOutcomeIndex(x.outcomeIndex),
+    size,
+    usdcSize,
+    price,
+    transactionHash: x.transactionHash,
+    slug: x.slug,
+    conditionId: x.conditionId,
+    name: x.name || x.pseudonym || undefined,
+  };
+}
+
+async function getJson(url: URL, endpoint: string): Promise<any[]> {
+  const startedAt = Date.now();
+  let res: Response;
+  try {
+    res = await fetch(url.toString(), { cache: "no-store" });
+  } catch (err) {
+    observeApiRequest(endpoint, startedAt, "error");
+    throw err;
+  }
+  observeApiRequest(endpoint, startedAt, res.status);
+  if (!res.ok) throw new PolymarketApiError(res.status, parseRetryAfter(res.headers.get("retry-after")));
+  return ((await res.json()) as any[]) || [];
+}
+
+// newest first; `offset` pages further back into the wallet's history
+export async function fetchLatestTradesForWallet(wallet: string, limit = 20, offset = 0): Promise<PolymarketTrade[]> {
   const url = new URL("https://data-api.polymarket.com/activity");
   url.searchParams.set("user", wallet);
   url.searchParams.set("limit", String(limit));
+  if (offset > 0) url.searchParams.set("offset", String(offset));
   url.searchParams.set("sortDirection", "DESC");
   url.searchParams.set("sortBy", "TIMESTAMP");
   url.searchParams.set("type", "TRADE");
 
-  const res = await fetch(url.toString(), { cache: "no-store" });
-  if (!res.ok) throw new Error(`Polymarket Data API error: ${res.status}`);
-
-  const data = (await res.json()) as any[];
-  return (data || [])
-    .map((x) => {
-      const t: PolymarketTrade = {
-        proxyWallet: String(x.proxyWallet || wallet),
-        timestamp: normalizeTimestamp(Number(x.timestamp ?? 0)),
-        side: x.side === "SELL" ? "SELL" : "BUY",
-        title: x.title,
-        outcome: x.outcome,
-        size: typeof x.size === "number" ? x.size : Number(x.size),
-        usdcSize: typeof x.usdcSize === "number" ? x.usdcSize : Number(x.usdcSize),
-        price: typeof x.price === "number" ? x.price : Number(x.price),
-        transactionHash: x.transactionHash,
-        slug: x.slug,
-      };
-      return t;
-    })
-    .filter((t) => t.timestamp > 0);
+  const data = await getJson(url, "activity");
+  return data.map((x) => parseTrade(x, wallet)).filter((t) => t.timestamp > 0);
+}
+
+// Latest trades by any wallet, newest first: in the given markets (condition ids),
+// or across every market when none are given. `minUsd` is applied by the API.
+export async function fetchLatestMarketTrades(opts: {
+  markets?: string[];
+  minUsd?: number;
+  limit?: number;
+}): Promise<PolymarketTrade[]> {
+  const url = new URL("https://data-api.polymarket.com/trades");
+  if (opts.markets?.length) url.searchParams.set("market", opts.markets.join(","));
+  url.searchParams.set("limit", String(opts.limit ?? 100));
+  url.searchParams.set("takerOnly", "true");
+  if (opts.minUsd && opts.minUsd > 0) {
+    url.searchParams.set("filterType", "CASH");
+    url.searchParams.set("filterAmount", String(opts.minUsd));
+  }
+
+  const data = await getJson(url, "trades");
+  return data.map((x) => parseTrade(x, "")).filter((t) => t.timestamp > 0 && t.proxyWallet);
 }
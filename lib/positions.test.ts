@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import type { TradeEvent } from "@/lib/events";
+import { createPositionBook } from "@/lib/positions";
+
+let n = 0;
+function trade(side: "BUY" | "SELL", shares: number, price: number, extra: Partial<TradeEvent> = {}): TradeEvent {
+  n += 1;
+  return {
+    id: `t${n}`,
+    wallet: "0xAbC",
+    trader: "alice",
+    side,
+    outcome: "Yes",
+    conditionId: "0xmarket",
+    shares,
+    price,
+    usdc: shares * price,
+    timestampMs: 1_000 * n,
+    ...extra,
+  };
+}
+
+describe("createPositionBook", () => {
+  it("averages the entry price across buys", () => {
+    const book = createPositionBook();
+    expect(book.apply(trade("BUY", 100, 0.4))?.action).toBe("opened");
+    const u = book.apply(trade("BUY", 100, 0.6))!;
+    expect(u.action).toBe("added");
+    expect(u.sharesAfter).toBe(200);
+    expect(u.avgPrice).toBeCloseTo(0.5);
+    expect(u.costBasis).toBeCloseTo(100);
+  });
+
+  it("realizes PnL on sells against the average price", () => {
+    const book = createPositionBook();
+    book.apply(trade("BUY", 200, 0.5));
+    const trim = book.apply(trade("SELL", 50, 0.7))!;
+    expect(trim.action).toBe("trimmed");
+    expect(trim.realizedDelta).toBeCloseTo(10);
+    expect(trim.costBasis).toBeCloseTo(75);
+
+    const close = book.apply(trade("SELL", 150, 0.3))!;
+    expect(close.action).toBe("closed");
+    expect(close.sharesAfter).toBe(0);
+    expect(close.realizedDelta).toBeCloseTo(-30);
+    expect(close.realizedPnl).toBeCloseTo(-20);
+  });
+
+  it("only realizes the shares it saw bought", () => {
+    const book = createPositionBook();
+    book.apply(trade("BUY", 10, 0.5));
+    const u = book.apply(trade("SELL", 30, 0.6))!;
+    expect(u.action).toBe("closed");
+    expect(u.realizedDelta).toBeCloseTo(1);
+  });
+
+  it("reports a sell with no known position as sold", () => {
+    const book = createPositionBook();
+    const u = book.apply(trade("SELL", 10, 0.5))!;
+    expect(u.action).toBe("sold");
+    expect(u.realizedDelta).toBeUndefined();
+    expect(u.sharesAfter).toBe(0);
+  });
+
+  it("starts PnL over when a closed position is reopened", () => {
+    const book = createPositionBook();
+    book.apply(trade("BUY", 10, 0.5));
+    book.apply(trade("SELL", 10, 0.9));
+    const u = book.apply(trade("BUY", 10, 0.2))!;
+    expect(u.action).toBe("opened");
+    expect(u.realizedPnl).toBe(0);
+  });
+
+  it("keeps outcomes and wallets apart, matching addresses case-insensitively", () => {
+    const book = createPositionBook();
+    book.apply(trade("BUY", 10, 0.5));
+    book.apply(trade("BUY", 10, 0.5, { outcome: "No" }));
+    book.apply(trade("BUY", 10, 0.5, { wallet: "0xother" }));
+    expect(book.list("0xabc")).toHaveLength(2);
+    expect(book.list()).toHaveLength(3);
+  });
+
+  it("ignores trades without a share count", () => {
+    const book = createPositionBook();
+    expect(book.apply(trade("BUY", 0, 0.5))).toBeNull();
+    expect(book.apply(trade("BUY", NaN, 0.5))).toBeNull();
+  });
+
+  it("restores a snapshot", () => {
+    const book = createPositionBook();
+    book.apply(trade("BUY", 100, 0.4));
+    const copy = createPositionBook();
+    copy.restore(book.snapshot());
+    expect(copy.apply(trade("SELL", 100, 0.5))?.realizedDelta).toBeCloseTo(10);
+  });
+});
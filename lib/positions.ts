@@ -0,0 +1,160 @@
+import type { TradeEvent } from "@/lib/events";
+
+// "sold" = a sell against shares we never saw bought (opened before tracking)
+export type PositionAction = "opened" | "added" | "trimmed" | "closed" | "sold";
+
+export type Position = {
+  wallet: string;
+  trader: string;
+  marketKey: string; // conditionId, else slug, else title
+  title?: string;
+  slug?: string;
+  outcome: string;
+  outcomeIndex?: number;
+  shares: number;
+  avgPrice: number;
+  costBasis: number;
+  realizedPnl: number;
+  trades: number;
+  openedAt: number;
+  updatedAt: number;
+};
+
+export type PositionUpdate = {
+  action: PositionAction;
+  sharesAfter: number;
+  avgPrice: number;
+  costBasis: number;
+  realizedPnl: number; // cumulative for this position
+  realizedDelta?: number; // PnL realized by this trade (sells only)
+};
+
+export type PositionBook = {
+  apply(e: TradeEvent): PositionUpdate | null;
+  list(wallet?: string): Position[];
+  snapshot(): Position[];
+  restore(positions: Position[]): void;
+};
+
+// below this a position counts as flat (float dust from partial fills)
+const EPSILON = 1e-6;
+// closed positions are dropped from snapshots after this long
+const CLOSED_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+function marketKey(e: TradeEvent) {
+  return e.conditionId || e.slug || e.title || "unknown";
+}
+
+function positionKey(wallet: string, market: string, outcome: string) {
+  return `${wallet.toLowerCase()}|${market}|${outcome.toLowerCase()}`;
+}
+
+export function createPositionBook(): PositionBook {
+  const positions = new Map<string, Position>();
+
+  return {
+    apply(e) {
+      const shares = e.shares ?? NaN;
+      if (!Number.isFinite(shares) || shares <= 0) return null;
+      const notional = Number.isFinite(e.usdc ?? NaN) ? e.usdc! : shares * (e.price ?? 0);
+      const price = Number.isFinite(e.price ?? NaN) ? e.price! : notional / shares;
+
+      const outcome = e.outcome || "";
+      const market = marketKey(e);
+      const key = positionKey(e.wallet, market, outcome);
+
+      let p = positions.get(key);
+      if (!p) {
+        p = {
+          wallet: e.wallet,
+          trader: e.trader,
+          marketKey: market,
+          title: e.title,
+          slug: e.slug,
+          outcome,
+          outcomeIndex: e.outcomeIndex,
+          shares: 0,
+          avgPrice: 0,
+          costBasis: 0,
+          realizedPnl: 0,
+          trades: 0,
+          openedAt: e.timestampMs,
+          updatedAt: e.timestampMs,
+        };
+        positions.set(key, p);
+      }
+
+      const before = p.shares;
+      let action: PositionAction;
+      let realizedDelta: number | undefined;
+
+      if (e.side === "BUY") {
+        action = before > EPSILON ? "added" : "opened";
+        if (action === "opened") {
+          p.openedAt = e.timestampMs;
+          p.realizedPnl = 0;
+        }
+        p.shares = before + shares;
+        p.costBasis += notional;
+        p.avgPrice = p.costBasis / p.shares;
+      } else {
+        if (before <= EPSILON) {
+          action = "sold";
+        } else {
+          // only the part we saw bought has a known basis
+          const matched = Math.min(shares, before);
+          realizedDelta = (price - p.avgPrice) * matched;
+          p.realizedPnl += realizedDelta;
+          p.shares = before - matched;
+          p.costBasis = p.avgPrice * p.shares;
+          action = p.shares > EPSILON ? "trimmed" : "closed";
+        }
+        if (p.shares <= EPSILON) {
+          p.shares = 0;
+          p.costBasis = 0;
+        }
+      }
+
+      p.trader = e.trader;
+      p.trades += 1;
+      p.updatedAt = e.timestampMs;
+
+      return {
+        action,
+        sharesAfter: p.shares,
+        avgPrice: p.avgPrice,
+        costBasis: p.costBasis,
+        realizedPnl: p.realizedPnl,
+        realizedDelta,
+      };
+    },
+
+    list(wallet) {
+      const w = wallet?.toLowerCase();
+      return Array.from(positions.values())
+        .filter((p) => !w || p.wallet.toLowerCase() === w)
+        .sort((a, b) => b.updatedAt - a.updatedAt);
+    },
+
+    snapshot() {
+      const cutoff = Date.now() - CLOSED_RETENTION_MS;
+      return Array.from(positions.values()).filter((p) => p.shares > EPSILON || p.updatedAt >= cutoff);
+    },
+
+    restore(list) {
+      positions.clear();
+      for (const p of list) positions.set(positionKey(p.wallet, p.marketKey, p.outcome), p);
+    },
+  };
+}
+
+declare global {
+  // eslint-disable-next-line no-var
+  var __PM_POSITIONS__: PositionBook | undefined;
+}
+
+// Shared between the poller (stream route) and /api/positions
+export function getPositionBook(): PositionBook {
+  if (!globalThis.__PM_POSITIONS__) globalThis.__PM_POSITIONS__ = createPositionBook();
+  return globalThis.__PM_POSITIONS__!;
+}
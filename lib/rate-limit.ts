@@ -0,0 +1,56 @@
+// Token buckets keyed by caller (API token, login IP, …). In memory, so each
+// instance enforces its own limit.
+
+export type RateLimitResult = {
+  ok: boolean;
+  limit: number; // requests per minute
+  remaining: number;
+  retryAfterMs: number; // 0 when ok
+};
+
+export type RateLimiter = {
+  take(key: string, perMinute: number, now?: number): RateLimitResult;
+};
+
+type Bucket = { tokens: number; updatedAt: number };
+
+const MAX_BUCKETS = 10_000;
+
+export function createRateLimiter(): RateLimiter {
+  const buckets = new Map<string, Bucket>();
+
+  return {
+    take(key, perMinute, now = Date.now()) {
+      const limit = Math.max(1, Math.floor(perMinute));
+      const refillPerMs = limit / 60_000;
+
+      let b = buckets.get(key);
+      if (b) {
+        b.tokens = Math.min(limit, b.tokens + (now - b.updatedAt) * refillPerMs);
+        b.updatedAt = now;
+        // most recently used last, so the oldest are dropped first below
+        buckets.delete(key);
+      } else {
+        b = { tokens: limit, updatedAt: now };
+      }
+      buckets.set(key, b);
+      if (buckets.size > MAX_BUCKETS) buckets.delete(buckets.keys().next().value!);
+
+      if (b.tokens < 1) {
+        return { ok: false, limit, remaining: 0, retryAfterMs: Math.ceil((1 - b.tokens) / refillPerMs) };
+      }
+      b.tokens -= 1;
+      return { ok: true, limit, remaining: Math.floor(b.tokens), retryAfterMs: 0 };
+    },
+  };
+}
+
+declare global {
+  // eslint-disable-next-line no-var
+  var __PM_RATE_LIMITER__: RateLimiter | undefined;
+}
+
+export function getRateLimiter(): RateLimiter {
+  if (!globalThis.__PM_RATE_LIMITER__) globalThis.__PM_RATE_LIMITER__ = createRateLimiter();
+  return globalThis.__PM_RATE_LIMITER__!;
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { createReplayBuffer } from "@/lib/replay-buffer";
+
+describe("createReplayBuffer", () => {
+  it("numbers items and keeps only the most recent", () => {
+    const buf = createReplayBuffer<string>(3);
+    for (const s of ["a", "b", "c", "d"]) buf.push(s);
+    expect(buf.lastSeq()).toBe(4);
+    expect(buf.entries()).toEqual([
+      { seq: 2, item: "b" },
+      { seq: 3, item: "c" },
+      { seq: 4, item: "d" },
+    ]);
+  });
+
+  it("replays what came after a seq", () => {
+    const buf = createReplayBuffer<string>(3);
+    for (const s of ["a", "b", "c"]) buf.push(s);
+    expect(buf.since(1)).toEqual({
+      entries: [
+        { seq: 2, item: "b" },
+        { seq: 3, item: "c" },
+      ],
+      truncated: false,
+    });
+    expect(buf.since(3)).toEqual({ entries: [], truncated: false });
+    expect(buf.since(10)).toEqual({ entries: [], truncated: false });
+  });
+
+  it("says when a resume reaches past what it still holds", () => {
+    const buf = createReplayBuffer<string>(2);
+    for (const s of ["a", "b", "c", "d"]) buf.push(s);
+    expect(buf.since(1)).toMatchObject({ truncated: true });
+    expect(buf.since(2)).toMatchObject({ truncated: false });
+  });
+
+  it("keeps entries numbered elsewhere and ignores older or repeated ones", () => {
+    const buf = createReplayBuffer<string>(5);
+    expect(buf.add({ seq: 7, item: "x" })).toBe(true);
+    expect(buf.add({ seq: 7, item: "x" })).toBe(false);
+    expect(buf.add({ seq: 3, item: "old" })).toBe(false);
+    expect(buf.push("y")).toBe(8);
+    expect(buf.entries().map((e) => e.item)).toEqual(["x", "y"]);
+  });
+
+  it("restores a snapshot in order, up to its capacity", () => {
+    const buf = createReplayBuffer<string>(2, {
+      lastSeq: 12,
+      entries: [
+        { seq: 10, item: "c" },
+        { seq: 8, item: "a" },
+        { seq: 9, item: "b" },
+      ],
+    });
+    expect(buf.entries().map((e) => e.seq)).toEqual([9, 10]);
+    expect(buf.lastSeq()).toBe(12);
+    expect(buf.push("d")).toBe(13);
+  });
+});
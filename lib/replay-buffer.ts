@@ -0,0 +1,69 @@
+export type Sequenced<T> = { seq: number; item: T };
+
+export type ReplayBuffer<T> = {
+  push(item: T): number;
+  // keeps an entry numbered elsewhere (e.g. by the leader); older or duplicate seqs are ignored
+  add(entry: Sequenced<T>): boolean;
+  since(seq: number): { entries: Sequenced<T>[]; truncated: boolean };
+  lastSeq(): number;
+  entries(): Sequenced<T>[];
+};
+
+// Fixed-size ring of the most recent items, each tagged with a monotonically
+// increasing sequence number (used as the SSE `id:`).
+export function createReplayBuffer<T>(
+  capacity: number,
+  restore?: { lastSeq: number; entries: Sequenced<T>[] }
+): ReplayBuffer<T> {
+  const cap = Math.max(1, Math.floor(capacity));
+  const ring: (Sequenced<T> | undefined)[] = new Array(cap);
+  let start = 0; // index of the oldest entry
+  let count = 0;
+  let seq = 0;
+
+  function append(entry: Sequenced<T>) {
+    ring[(start + count) % cap] = entry;
+    if (count < cap) count++;
+    else start = (start + 1) % cap;
+  }
+
+  function entries(): Sequenced<T>[] {
+    const out: Sequenced<T>[] = [];
+    for (let i = 0; i < count; i++) out.push(ring[(start + i) % cap]!);
+    return out;
+  }
+
+  if (restore) {
+    const sorted = [...restore.entries].sort((a, b) => a.seq - b.seq);
+    for (const e of sorted.slice(-cap)) append(e);
+    seq = Math.max(restore.lastSeq || 0, sorted.length ? sorted[sorted.length - 1].seq : 0);
+  }
+
+  return {
+    push(item) {
+      seq += 1;
+      append({ seq, item });
+      return seq;
+    },
+    add(entry) {
+      if (!(entry.seq > seq)) return false;
+      seq = entry.seq;
+      append(entry);
+      return true;
+    },
+    since(after) {
+      if (after >= seq) return { entries: [], truncated: false };
+      const all = entries();
+      const oldest = all.length ? all[0].seq : seq + 1;
+      return {
+        entries: all.filter((e) => e.seq > after),
+        // anything between `after` and the oldest entry we still hold is gone
+        truncated: after < oldest - 1,
+      };
+    },
+    lastSeq() {
+      return seq;
+    },
+    entries,
+  };
+}
@@ -0,0 +1,79 @@
+import { randomUUID } from "crypto";
+import { createJsonFileStore, type JsonFileStore } from "@/lib/json-file-store";
+import { RuleInputError, type AlertRule, type RuleInput } from "@/lib/rules";
+
+// Alert rules per user, in one JSON file shared by every instance
+
+type Rules = Map<string, AlertRule[]>; // key: user
+
+const MAX_RULES_PER_USER = 100;
+
+declare global {
+  // eslint-disable-next-line no-var
+  var __PM_RULE_STORE__: JsonFileStore<Rules> | undefined;
+}
+
+function getStore(): JsonFileStore<Rules> {
+  if (!globalThis.__PM_RULE_STORE__) {
+    globalThis.__PM_RULE_STORE__ = createJsonFileStore<Rules>({
+      name: "rules",
+      file: () => process.env.RULES_FILE || ".data/rules.json",
+      decode(data) {
+        const rules: Rules = new Map();
+        for (const [user, list] of Object.entries(data?.rules ?? {})) {
+          if (Array.isArray(list)) rules.set(user, list as AlertRule[]);
+        }
+        return rules;
+      },
+      encode: (rules) => ({ rules: Object.fromEntries(rules) }),
+    });
+  }
+  return globalThis.__PM_RULE_STORE__!;
+}
+
+export async function listRules(user: string): Promise<AlertRule[]> {
+  return (await getStore().read()).get(user) ?? [];
+}
+
+// every user's enabled rules, for server-side actions (forwarding)
+export async function listAllRules(): Promise<AlertRule[]> {
+  return Array.from((await getStore().read()).values())
+    .flat()
+    .filter((r) => r.enabled);
+}
+
+export function createRule(user: string, input: RuleInput): Promise<AlertRule> {
+  return getStore().mutate((rules) => {
+    const list = rules.get(user) ?? [];
+    if (list.length >= MAX_RULES_PER_USER) throw new RuleInputError(`At most ${MAX_RULES_PER_USER} rules per user`);
+
+    const now = Date.now();
+    const rule: AlertRule = { ...input, id: randomUUID(), createdAt: now, updatedAt: now };
+    rules.set(user, [...list, rule]);
+    return rule;
+  });
+}
+
+export function updateRule(user: string, id: unknown, input: Partial<RuleInput>): Promise<AlertRule> {
+  return getStore().mutate((rules) => {
+    const list = rules.get(user) ?? [];
+    const idx = list.findIndex((r) => r.id === id);
+    if (idx < 0) throw new RuleInputError(`Rule ${id} not found`, 404);
+
+    const rule = { ...list[idx], ...input, updatedAt: Date.now() };
+    const next = list.map((r, i) => (i === idx ? rule : r));
+    rules.set(user, next);
+    return rule;
+  });
+}
+
+export function deleteRule(user: string, id: unknown): Promise<void> {
+  return getStore().mutate((rules) => {
+    const list = rules.get(user) ?? [];
+    if (!list.some((r) => r.id === id)) throw new RuleInputError(`Rule ${id} not found`, 404);
+
+    const rest = list.filter((r) => r.id !== id);
+    if (rest.length) rules.set(user, rest);
+    else rules.delete(user);
+  });
+}
@@ -0,0 +1,150 @@
+import { describe, expect, it } from "vitest";
+import type { TradeEvent } from "@/lib/events";
+import {
+  RuleInputError,
+  describeCondition,
+  evaluateRules,
+  matchesCondition,
+  parseRuleInput,
+  type AlertRule,
+  type RuleCondition,
+} from "@/lib/rules";
+
+const event: TradeEvent = {
+  id: "t1",
+  wallet: "0xAbC",
+  trader: "Alice",
+  traderTags: ["whales", "politics"],
+  side: "BUY",
+  outcome: "Yes",
+  title: "Will it rain in London?",
+  slug: "rain-london",
+  usdc: 2_500,
+  price: 0.15,
+  timestampMs: 1,
+  unusual: true,
+};
+
+function rule(conditions: RuleCondition[], actions: Partial<AlertRule["actions"]> = {}, enabled = true): AlertRule {
+  return {
+    id: `r${conditions.length}`,
+    name: "test",
+    enabled,
+    conditions,
+    actions: { speak: false, show: false, chime: false, forward: [], ...actions },
+    createdAt: 0,
+    updatedAt: 0,
+  };
+}
+
+describe("parseRuleInput", () => {
+  const valid = {
+    name: "  Whales  ",
+    conditions: [
+      { field: "usdc", op: "gte", value: "1000" },
+      { field: "group", op: "in", value: "whales, sharks" },
+      { field: "unusual", op: "eq", value: "true" },
+    ],
+    actions: { speak: true, forward: ["ops", " "] },
+  };
+
+  it("normalises a full rule", () => {
+    expect(parseRuleInput(valid, false)).toEqual({
+      name: "Whales",
+      enabled: true,
+      conditions: [
+        { field: "usdc", op: "gte", value: 1000 },
+        { field: "group", op: "in", value: ["whales", "sharks"] },
+        { field: "unusual", op: "eq", value: true },
+      ],
+      actions: { speak: true, show: false, chime: false, highlight: undefined, forward: ["ops"] },
+    });
+  });
+
+  it("returns only the given fields of a patch", () => {
+    expect(parseRuleInput({ enabled: false }, true)).toEqual({ enabled: false });
+  });
+
+  it.each([
+    [{ ...valid, name: " " }, "name is required"],
+    [{ ...valid, conditions: "x" }, "conditions must be an array"],
+    [{ ...valid, conditions: [{ field: "nope", op: "eq", value: 1 }] }, 'unknown field "nope"'],
+    [{ ...valid, conditions: [{ field: "usdc", op: "contains", value: 1 }] }, 'usdc can\'t use "contains"'],
+    [{ ...valid, conditions: [{ field: "usdc", op: "gte", value: "lots" }] }, "usdc needs a number"],
+    [{ ...valid, conditions: [{ field: "side", op: "in", value: [] }] }, "needs at least one value"],
+    [{ ...valid, actions: {} }, "Pick at least one action"],
+    [{ ...valid, actions: { highlight: "plaid" } }, 'Unknown highlight colour "plaid"'],
+  ])("rejects %j", (body, message) => {
+    expect(() => parseRuleInput(body, false)).toThrow(message);
+  });
+
+  it.each(["constructor", "toString", "__proto__", "hasOwnProperty"])(
+    "rejects the inherited key %s as a field with a RuleInputError",
+    (field) => {
+      const body = { ...valid, conditions: [{ field, op: "eq", value: "x" }] };
+      expect(() => parseRuleInput(body, false)).toThrow(RuleInputError);
+    }
+  );
+
+  it("gives input errors a 400 status", () => {
+    try {
+      parseRuleInput(null, false);
+      expect.unreachable();
+    } catch (err: any) {
+      expect(err).toBeInstanceOf(RuleInputError);
+      expect(err.status).toBe(400);
+    }
+  });
+});
+
+describe("matchesCondition", () => {
+  it.each<[RuleCondition, boolean]>([
+    [{ field: "usdc", op: "gte", value: 2_500 }, true],
+    [{ field: "usdc", op: "gt", value: 2_500 }, false],
+    [{ field: "price", op: "lt", value: 0.2 }, true],
+    [{ field: "currentPrice", op: "lt", value: 1 }, false], // missing numbers never match
+    [{ field: "trader", op: "eq", value: "alice" }, true], // case-insensitive
+    [{ field: "side", op: "neq", value: "sell" }, true],
+    [{ field: "market", op: "contains", value: "LONDON" }, true], // title
+    [{ field: "market", op: "eq", value: "rain-london" }, true], // slug
+    [{ field: "market", op: "neq", value: "rain-london" }, false], // neq needs slug and title to differ
+    [{ field: "group", op: "in", value: ["Whales", "sharks"] }, true],
+    [{ field: "group", op: "contains", value: "polit" }, true],
+    [{ field: "category", op: "eq", value: "sports" }, false],
+    [{ field: "unusual", op: "eq", value: true }, true],
+    [{ field: "untracked", op: "eq", value: false }, true],
+    [{ field: "watch", op: "in", value: ["weather"] }, false],
+  ])("%j -> %s", (c, expected) => {
+    expect(matchesCondition(event, c)).toBe(expected);
+  });
+});
+
+describe("evaluateRules", () => {
+  it("combines the actions of every matching enabled rule", () => {
+    const rules = [
+      rule([{ field: "usdc", op: "gte", value: 1_000 }], { speak: true, highlight: "amber", forward: ["ops"] }),
+      rule([], { chime: true, highlight: "rose", forward: ["ops", "chat"] }),
+      rule([{ field: "side", op: "eq", value: "SELL" }], { show: true }),
+      rule([], { show: true }, false),
+    ];
+    const m = evaluateRules(event, rules);
+    expect(m.rules).toHaveLength(2);
+    expect(m).toMatchObject({ speak: true, chime: true, show: false, highlight: "amber" });
+    expect(m.forward).toEqual(["ops", "chat"]);
+  });
+
+  it("needs every condition to hold", () => {
+    const r = rule([
+      { field: "usdc", op: "gte", value: 1_000 },
+      { field: "side", op: "eq", value: "SELL" },
+    ]);
+    expect(evaluateRules(event, [r]).rules).toEqual([]);
+  });
+});
+
+describe("describeCondition", () => {
+  it("uses the field label and operator symbol", () => {
+    expect(describeCondition({ field: "usdc", op: "gte", value: 1_000 })).toBe("Notional (USD) ≥ 1000");
+    expect(describeCondition({ field: "group", op: "in", value: ["a", "b"] })).toBe("Group (tag) is one of a, b");
+  });
+});
@@ -0,0 +1,247 @@
+import type { TradeEvent } from "@/lib/events";
+import { InputError } from "@/lib/input-error";
+
+// Saved alert rules: every condition must hold (AND), and a matching rule's
+// actions apply to the trade. Pure so the page and the poller evaluate the
+// same way.
+
+export type RuleFieldKind = "text" | "number" | "list" | "boolean";
+
+export const RULE_FIELDS = {
+  trader: { label: "Trader", kind: "text" },
+  wallet: { label: "Wallet", kind: "text" },
+  group: { label: "Group (tag)", kind: "list" },
+  side: { label: "Side", kind: "text" },
+  outcome: { label: "Outcome", kind: "text" },
+  market: { label: "Market", kind: "text" }, // slug or title
+  category: { label: "Category", kind: "text" },
+  usdc: { label: "Notional (USD)", kind: "number" },
+  shares: { label: "Shares", kind: "number" },
+  price: { label: "Price", kind: "number" },
+  currentPrice: { label: "Current price", kind: "number" },
+  anomalyScore: { label: "× usual size", kind: "number" },
+  unusual: { label: "Unusual", kind: "boolean" },
+  watch: { label: "Watchlist", kind: "list" },
+  untracked: { label: "Untracked wallet", kind: "boolean" },
+} as const satisfies Record<string, { label: string; kind: RuleFieldKind }>;
+
+export type RuleField = keyof typeof RULE_FIELDS;
+
+export type RuleOp = "eq" | "neq" | "gt" | "gte" | "lt" | "lte" | "contains" | "in";
+
+export const RULE_OPS: Record<RuleFieldKind, RuleOp[]> = {
+  text: ["eq", "neq", "contains", "in"],
+  number: ["gte", "gt", "lte", "lt", "eq", "neq"],
+  list: ["in", "contains"],
+  boolean: ["eq"],
+};
+
+export const RULE_OP_LABELS: Record<RuleOp, string> = {
+  eq: "=",
+  neq: "≠",
+  gt: ">",
+  gte: "≥",
+  lt: "<",
+  lte: "≤",
+  contains: "contains",
+  in: "is one of",
+};
+
+export type RuleCondition = {
+  field: RuleField;
+  op: RuleOp;
+  value: string | number | boolean | string[]; // string[] for "in"
+};
+
+export const HIGHLIGHT_COLOURS = ["amber", "emerald", "sky", "rose", "violet"] as const;
+export type HighlightColour = (typeof HIGHLIGHT_COLOURS)[number];
+
+export type RuleActions = {
+  speak: boolean;
+  show: boolean; // pinned to the page's Alerts list
+  chime: boolean;
+  highlight?: HighlightColour; // colours the trade in the log
+  forward: string[]; // notify target names, sent server-side
+};
+
+export type AlertRule = {
+  id: string;
+  name: string;
+  enabled: boolean;
+  conditions: RuleCondition[];
+  actions: RuleActions;
+  createdAt: number;
+  updatedAt: number;
+};
+
+export type RuleInput = Pick<AlertRule, "name" | "enabled" | "conditions" | "actions">;
+
+export type RuleMatch = RuleActions & { rules: AlertRule[] };
+
+const MAX_CONDITIONS = 20;
+
+export class RuleInputError extends InputError {
+  name = "RuleInputError";
+}
+
+function parseCondition(raw: any, idx: number): RuleCondition {
+  const where = `condition ${idx + 1}`;
+  const field = String(raw?.field ?? "") as RuleField;
+  if (!Object.hasOwn(RULE_FIELDS, field)) throw new RuleInputError(`${where}: unknown field "${raw?.field}"`);
+
+  const kind = RULE_FIELDS[field].kind;
+  const op = String(raw?.op ?? "") as RuleOp;
+  if (!RULE_OPS[kind].includes(op)) throw new RuleInputError(`${where}: ${field} can't use "${raw?.op}"`);
+
+  const v = raw?.value;
+  if (op === "in") {
+    const list = (Array.isArray(v) ? v : String(v ?? "").split(","))
+      .map((s: unknown) => String(s).trim())
+      .filter(Boolean);
+    if (!list.length) throw new RuleInputError(`${where}: needs at least one value`);
+    return { field, op, value: list };
+  }
+  if (kind === "number") {
+    const n = typeof v === "number" ? v : Number(String(v ?? "").trim() || NaN);
+    if (!Number.isFinite(n)) throw new RuleInputError(`${where}: ${field} needs a number`);
+    return { field, op, value: n };
+  }
+  if (kind === "boolean") {
+    if (typeof v === "boolean") return { field, op, value: v };
+    if (v === "true" || v === "false") return { field, op, value: v === "true" };
+    throw new RuleInputError(`${where}: ${field} needs true or false`);
+  }
+  const s = String(v ?? "").trim();
+  if (!s) throw new RuleInputError(`${where}: needs a value`);
+  return { field, op, value: s };
+}
+
+function parseActions(raw: any): RuleActions {
+  const highlight = raw?.highlight ? String(raw.highlight) : undefined;
+  if (highlight && !(HIGHLIGHT_COLOURS as readonly string[]).includes(highlight)) {
+    throw new RuleInputError(`Unknown highlight colour "${highlight}"`);
+  }
+  const forward = raw?.forward ?? [];
+  if (!Array.isArray(forward)) throw new RuleInputError("actions.forward must be an array of notify target names");
+  return {
+    speak: Boolean(raw?.speak),
+    show: Boolean(raw?.show),
+    chime: Boolean(raw?.chime),
+    highlight: highlight as HighlightColour | undefined,
+    forward: forward.map((t: unknown) => String(t).trim()).filter(Boolean),
+  };
+}
+
+// Validates a POST body, or a PATCH body when `partial` (only given fields are returned)
+export function parseRuleInput(body: any, partial: boolean): Partial<RuleInput> {
+  if (!body || typeof body !== "object") throw new RuleInputError("Expected a JSON object");
+  const out: Partial<RuleInput> = {};
+
+  if (body.name !== undefined || !partial) {
+    const name = typeof body.name === "string" ? body.name.trim() : "";
+    if (!name) throw new RuleInputError("name is required");
+    out.name = name.slice(0, 100);
+  }
+  if (body.enabled !== undefined || !partial) out.enabled = body.enabled === undefined ? true : Boolean(body.enabled);
+
+  if (body.conditions !== undefined || !partial) {
+    if (!Array.isArray(body.conditions)) throw new RuleInputError("conditions must be an array");
+    if (body.conditions.length > MAX_CONDITIONS) throw new RuleInputError(`At most ${MAX_CONDITIONS} conditions`);
+    out.conditions = body.conditions.map(parseCondition);
+  }
+
+  if (body.actions !== undefined || !partial) {
+    const actions = parseActions(body.actions);
+    if (!actions.speak && !actions.show && !actions.chime && !actions.highlight && !actions.forward.length) {
+      throw new RuleInputError("Pick at least one action");
+    }
+    out.actions = actions;
+  }
+
+  return out;
+}
+
+function fieldValue(e: TradeEvent, field: RuleField): string | number | boolean | string[] | undefined {
+  switch (field) {
+    case "group":
+      return e.traderTags ?? [];
+    case "market":
+      return [e.slug, e.title].filter((v): v is string => !!v);
+    case "watch":
+      return e.watches ?? [];
+    case "unusual":
+    case "untracked":
+      return !!e[field];
+    default:
+      return e[field];
+  }
+}
+
+function textMatches(actual: string, op: RuleOp, value: RuleCondition["value"]): boolean {
+  const a = actual.toLowerCase();
+  switch (op) {
+    case "eq":
+      return a === String(value).toLowerCase();
+    case "neq":
+      return a !== String(value).toLowerCase();
+    case "contains":
+      return a.includes(String(value).toLowerCase());
+    case "in":
+      return (value as string[]).some((v) => a === v.toLowerCase());
+    default:
+      return false;
+  }
+}
+
+export function matchesCondition(e: TradeEvent, c: RuleCondition): boolean {
+  const actual = fieldValue(e, c.field);
+
+  if (typeof actual === "number" || RULE_FIELDS[c.field].kind === "number") {
+    if (typeof actual !== "number" || !Number.isFinite(actual)) return false;
+    const v = Number(c.value);
+    switch (c.op) {
+      case "eq":
+        return actual === v;
+      case "neq":
+        return actual !== v;
+      case "gt":
+        return actual > v;
+      case "gte":
+        return actual >= v;
+      case "lt":
+        return actual < v;
+      case "lte":
+        return actual <= v;
+      default:
+        return false;
+    }
+  }
+  if (typeof actual === "boolean") return actual === c.value;
+
+  // a list (tags, slug + title) matches when any of its entries does; neq needs all to differ
+  const values = Array.isArray(actual) ? actual : actual === undefined ? [] : [actual];
+  if (c.op === "neq") return values.every((v) => textMatches(v, c.op, c.value));
+  return values.some((v) => textMatches(v, c.op, c.value));
+}
+
+export function matchesRule(e: TradeEvent, rule: AlertRule): boolean {
+  return rule.enabled && rule.conditions.every((c) => matchesCondition(e, c));
+}
+
+// Actions of every enabled rule the trade matches; the first rule's highlight wins
+export function evaluateRules(e: TradeEvent, rules: AlertRule[]): RuleMatch {
+  const matched = rules.filter((r) => matchesRule(e, r));
+  return {
+    rules: matched,
+    speak: matched.some((r) => r.actions.speak),
+    show: matched.some((r) => r.actions.show),
+    chime: matched.some((r) => r.actions.chime),
+    highlight: matched.find((r) => r.actions.highlight)?.actions.highlight,
+    forward: Array.from(new Set(matched.flatMap((r) => r.actions.forward))),
+  };
+}
+
+export function describeCondition(c: RuleCondition): string {
+  const value = Array.isArray(c.value) ? c.value.join(", ") : String(c.value);
+  return `${RULE_FIELDS[c.field].label} ${RULE_OP_LABELS[c.op]} ${value}`;
+}
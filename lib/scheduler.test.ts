@@ -0,0 +1,77 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { PolymarketApiError } from "@/lib/polymarket";
+import { createWalletScheduler } from "@/lib/scheduler";
+
+const opts = { baseIntervalMs: 1_000, maxIntervalMs: 4_000, maxBackoffMs: 10_000 };
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("createWalletScheduler", () => {
+  it("polls new wallets at once, then on the base interval while they trade", () => {
+    const s = createWalletScheduler(opts);
+    expect(s.due(["a", "b"], 0)).toEqual(["a", "b"]);
+    s.recordSuccess("a", true, 0);
+    expect(s.due(["a", "b"], 999)).toEqual(["b"]);
+    expect(s.due(["a", "b"], 1_000)).toEqual(["a", "b"]);
+  });
+
+  it("slows quiet wallets down up to the max interval", () => {
+    const s = createWalletScheduler(opts);
+    let now = 0;
+    for (const interval of [1_500, 2_250, 3_375, 4_000, 4_000]) {
+      s.recordSuccess("a", false, now);
+      expect(s.due(["a"], now + interval - 1)).toEqual([]);
+      now += interval;
+      expect(s.due(["a"], now)).toEqual(["a"]);
+    }
+
+    s.recordSuccess("a", true, now);
+    expect(s.due(["a"], now + 1_000)).toEqual(["a"]);
+  });
+
+  it("backs off exponentially on errors, within the ceiling", () => {
+    vi.spyOn(Math, "random").mockReturnValue(1); // no jitter
+    const s = createWalletScheduler(opts);
+    const err = new Error("boom");
+
+    s.recordError("a", err, 0);
+    expect(s.due(["a"], 1_999)).toEqual([]);
+    expect(s.due(["a"], 2_000)).toEqual(["a"]);
+
+    s.recordError("a", err, 0);
+    expect(s.due(["a"], 3_999)).toEqual([]);
+    expect(s.due(["a"], 4_000)).toEqual(["a"]);
+
+    for (let i = 0; i < 10; i++) s.recordError("a", err, 0);
+    expect(s.due(["a"], 10_000)).toEqual(["a"]);
+
+    s.recordSuccess("a", true, 0);
+    s.recordError("a", err, 0);
+    expect(s.due(["a"], 2_000)).toEqual(["a"]);
+  });
+
+  it("pauses every wallet on a rate limit, honouring Retry-After", () => {
+    const s = createWalletScheduler(opts);
+    s.recordError("a", new PolymarketApiError(429, 5_000), 0);
+
+    expect(s.isPaused(4_999)).toBe(true);
+    expect(s.pausedUntil()).toBe(5_000);
+    expect(s.due(["a", "b"], 4_999)).toEqual([]);
+    expect(s.due(["a", "b"], 5_000)).toEqual(["a", "b"]);
+  });
+
+  it("caps a rate-limit pause at the max backoff", () => {
+    const s = createWalletScheduler(opts);
+    s.recordError("a", new PolymarketApiError(429, 60 * 60_000), 0);
+    expect(s.pausedUntil()).toBe(10_000);
+  });
+
+  it("forgets wallets that leave the list", () => {
+    const s = createWalletScheduler(opts);
+    s.recordSuccess("a", true, 0);
+    s.due([], 0);
+    expect(s.due(["a"], 0)).toEqual(["a"]);
+  });
+});
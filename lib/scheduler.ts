@@ -0,0 +1,103 @@
+import { PolymarketApiError } from "@/lib/polymarket";
+
+export type SchedulerOptions = {
+  baseIntervalMs: number; // poll interval for active wallets
+  maxIntervalMs: number; // ceiling for dormant wallets
+  maxBackoffMs: number; // ceiling for error / rate-limit backoff
+};
+
+type WalletSchedule = {
+  nextDueAt: number;
+  intervalMs: number;
+  failures: number;
+};
+
+export type WalletScheduler = {
+  due(wallets: string[], now?: number): string[];
+  isPaused(now?: number): boolean;
+  pausedUntil(): number;
+  recordSuccess(wallet: string, hadNewTrades: boolean, now?: number): void;
+  recordError(wallet: string, err: unknown, now?: number): void;
+};
+
+function envNumber(name: string, fallback: number): number {
+  const n = Number(process.env[name]);
+  return Number.isFinite(n) && n > 0 ? n : fallback;
+}
+
+export function schedulerOptionsFromEnv(): SchedulerOptions {
+  const baseIntervalMs = envNumber("POLL_MS", 2500);
+  return {
+    baseIntervalMs,
+    maxIntervalMs: Math.max(baseIntervalMs, envNumber("POLL_MAX_MS", 60_000)),
+    maxBackoffMs: envNumber("POLL_BACKOFF_MAX_MS", 5 * 60_000),
+  };
+}
+
+// equal jitter (half fixed, half random) keeps a fleet of wallets from retrying in lockstep
+function withJitter(ms: number): number {
+  return Math.round(ms / 2 + Math.random() * (ms / 2));
+}
+
+export function createWalletScheduler(opts: SchedulerOptions): WalletScheduler {
+  const byWallet = new Map<string, WalletSchedule>();
+  let pauseUntil = 0;
+  let rateLimitStrikes = 0;
+
+  function get(wallet: string, now: number): WalletSchedule {
+    let s = byWallet.get(wallet);
+    if (!s) {
+      s = { nextDueAt: now, intervalMs: opts.baseIntervalMs, failures: 0 };
+      byWallet.set(wallet, s);
+    }
+    return s;
+  }
+
+  function backoff(failures: number): number {
+    return withJitter(Math.min(opts.maxBackoffMs, opts.baseIntervalMs * 2 ** failures));
+  }
+
+  return {
+    due(wallets, now = Date.now()) {
+      // forget wallets that dropped off the list
+      const live = new Set(wallets);
+      for (const w of Array.from(byWallet.keys())) if (!live.has(w)) byWallet.delete(w);
+
+      if (now < pauseUntil) return [];
+      return wallets.filter((w) => get(w, now).nextDueAt <= now);
+    },
+
+    isPaused(now = Date.now()) {
+      return now < pauseUntil;
+    },
+
+    pausedUntil() {
+      return pauseUntil;
+    },
+
+    recordSuccess(wallet, hadNewTrades, now = Date.now()) {
+      const s = get(wallet, now);
+      s.failures = 0;
+      rateLimitStrikes = 0;
+      // active wallets stay on the base interval; quiet ones slow down gradually
+      s.intervalMs = hadNewTrades ? opts.baseIntervalMs : Math.min(opts.maxIntervalMs, Math.round(s.intervalMs * 1.5));
+      s.nextDueAt = now + s.intervalMs;
+    },
+
+    recordError(wallet, err, now = Date.now()) {
+      const s = get(wallet, now);
+
+      if (err instanceof PolymarketApiError && err.status === 429) {
+        // rate limits apply to the whole API, so pause everyone
+        rateLimitStrikes += 1;
+        const wait = err.retryAfterMs ?? backoff(rateLimitStrikes);
+        pauseUntil = Math.max(pauseUntil, now + Math.min(wait, opts.maxBackoffMs));
+        s.nextDueAt = pauseUntil;
+        return;
+      }
+
+      s.failures += 1;
+      s.nextDueAt = now + backoff(s.failures);
+    },
+  };
+}
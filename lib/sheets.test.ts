@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { parseTrackedWallets } from "@/lib/sheets";
+import { normalizeWalletRecords } from "@/lib/wallet-sources";
+
+describe("parseTrackedWallets", () => {
+  it("maps header aliases to fields", () => {
+    const csv = [
+      "Wallet Address,Trader Name,Min USD,Groups,Say As,Mute,Comments",
+      '0xabc,Alice,"$1,000","whales; sports",Al,x,"likes, rain"',
+    ].join("\n");
+    expect(parseTrackedWallets(csv)).toEqual([
+      {
+        trader: "Alice",
+        wallet: "0xabc",
+        minUsd: 1_000,
+        tags: ["whales", "sports"],
+        voiceAlias: "Al",
+        muted: true,
+        notes: "likes, rain",
+      },
+    ]);
+  });
+
+  it("reads columns A and B without a header and skips incomplete rows", () => {
+    expect(parseTrackedWallets("Alice,0xabc\nBob,\n,0xdef")).toEqual([{ trader: "Alice", wallet: "0xabc" }]);
+  });
+
+  it("doesn't take inherited keys for headers", () => {
+    // neither cell is a known header, so the first row is data
+    expect(parseTrackedWallets("constructor,toString\nAlice,0xabc")).toEqual([
+      { trader: "constructor", wallet: "toString" },
+      { trader: "Alice", wallet: "0xabc" },
+    ]);
+  });
+});
+
+describe("normalizeWalletRecords", () => {
+  it("reads records the way the sheet reads rows", () => {
+    const csv = "Name,Address,Min USD,Tags,Voice Alias,Muted,Notes\nAlice,0xabc,$500,whales|sports,Al,yes,hi";
+    const records = [
+      {
+        name: "Alice",
+        address: "0xabc",
+        minUsd: "$500",
+        tags: ["whales", "sports"],
+        voiceAlias: "Al",
+        muted: true,
+        notes: "hi",
+      },
+    ];
+    expect(normalizeWalletRecords(records)).toEqual(parseTrackedWallets(csv));
+  });
+
+  it("accepts a wallets key or a name-to-address map", () => {
+    const alice = { trader: "Alice", wallet: "0xabc" };
+    expect(normalizeWalletRecords({ wallets: [alice] })).toEqual([alice]);
+    expect(normalizeWalletRecords({ Alice: "0xabc" })).toEqual([alice]);
+  });
+
+  it("ignores inherited and unknown keys", () => {
+    expect(normalizeWalletRecords([{ trader: "Alice", wallet: "0xabc", constructor: "x", colour: "red" }])).toEqual([
+      { trader: "Alice", wallet: "0xabc" },
+    ]);
+  });
+});
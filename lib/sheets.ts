@@ -1,41 +1,134 @@
+import { parseCsv } from "@/lib/csv";
+
 export type TrackedWallet = {
   trader: string;
   wallet: string;
+  minUsd?: number; // per-trader alert floor
+  tags?: string[]; // groups, e.g. "whales", "sports"
+  voiceAlias?: string; // how the name should be pronounced
+  muted?: boolean;
+  notes?: string;
 };
 
-function parseCsvLine(line: string): string[] {
-  const out: string[] = [];
-  let cur = "";
-  let inQuotes = false;
-
-  for (let i = 0; i < line.length; i++) {
-    const ch = line[i];
-
-    if (ch === '"') {
-      inQuotes = !inQuotes;
-      continue;
-    }
+type Column = keyof TrackedWallet;
 
-    if (ch === "," && !inQuotes) {
-      out.push(cur.trim());
-      cur = "";
-      continue;
-    }
+// normalized header text (lowercase, alphanumerics only) -> field
+const HEADER_ALIASES: Record<string, Column> = {
+  name: "trader",
+  trader: "trader",
+  tradername: "trader",
+  wallet: "wallet",
+  address: "wallet",
+  walletaddress: "wallet",
+  proxywallet: "wallet",
+  minusd: "minUsd",
+  min: "minUsd",
+  minimumusd: "minUsd",
+  tags: "tags",
+  tag: "tags",
+  groups: "tags",
+  group: "tags",
+  voicealias: "voiceAlias",
+  alias: "voiceAlias",
+  pronunciation: "voiceAlias",
+  sayas: "voiceAlias",
+  muted: "muted",
+  mute: "muted",
+  notes: "notes",
+  note: "notes",
+  comments: "notes",
+};
 
-    cur += ch;
-  }
+function normalizeHeader(cell: string) {
+  return cell.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
 
-  out.push(cur.trim());
-  return out.map((s) => s.replace(/^"|"$/g, "").trim());
+// the field a header cell or record key names; own keys only, so "constructor" names nothing
+export function columnForHeader(cell: string): Column | undefined {
+  const key = normalizeHeader(cell);
+  return Object.hasOwn(HEADER_ALIASES, key) ? HEADER_ALIASES[key] : undefined;
 }
 
 function detectHeader(row: string[]): boolean {
+  if (row.some((c) => columnForHeader(c))) return true;
   const a = (row[0] || "").toLowerCase();
   const b = (row[1] || "").toLowerCase();
   return a.includes("name") || b.includes("wallet") || b.includes("address");
 }
 
-export async function fetchTrackedWallets(): Promise<TrackedWallet[]> {
+function columnMap(header: string[] | null): Partial<Record<Column, number>> {
+  const map: Partial<Record<Column, number>> = {};
+  if (header) {
+    header.forEach((cell, idx) => {
+      const col = columnForHeader(cell);
+      if (col && map[col] === undefined) map[col] = idx;
+    });
+  }
+  // Column A = trader, Column B = wallet unless the header says otherwise
+  if (map.trader === undefined) map.trader = 0;
+  if (map.wallet === undefined) map.wallet = 1;
+  return map;
+}
+
+function parseBool(v: unknown) {
+  if (typeof v === "boolean") return v;
+  return typeof v === "string" && /^(true|yes|y|1|x|muted)$/i.test(v.trim());
+}
+
+function text(v: unknown) {
+  return v === undefined || v === null ? "" : String(v).trim();
+}
+
+export type WalletFields = Partial<Record<Column, unknown>>;
+
+// One row's raw values, from a sheet or a JSON/YAML record, as a wallet; null
+// without a trader and wallet
+export function walletFromFields(f: WalletFields): TrackedWallet | null {
+  const trader = text(f.trader);
+  const wallet = text(f.wallet);
+  if (!trader || !wallet) return null;
+
+  const w: TrackedWallet = { trader, wallet };
+
+  const minUsdRaw = text(f.minUsd).replace(/[$,]/g, "");
+  if (minUsdRaw && Number.isFinite(Number(minUsdRaw))) w.minUsd = Number(minUsdRaw);
+
+  const tags = (Array.isArray(f.tags) ? f.tags.map(text) : text(f.tags).split(/[,;|]/))
+    .map((t) => t.trim())
+    .filter(Boolean);
+  if (tags.length) w.tags = tags;
+
+  const voiceAlias = text(f.voiceAlias);
+  if (voiceAlias) w.voiceAlias = voiceAlias;
+
+  if (parseBool(f.muted)) w.muted = true;
+
+  const notes = text(f.notes);
+  if (notes) w.notes = notes;
+
+  return w;
+}
+
+export function parseTrackedWallets(text: string): TrackedWallet[] {
+  const rows = parseCsv(text).map((r) => r.map((c) => c.trim()));
+  if (!rows.length) return [];
+
+  const hasHeader = detectHeader(rows[0]);
+  const cols = columnMap(hasHeader ? rows[0] : null);
+  const dataRows = hasHeader ? rows.slice(1) : rows;
+
+  const wallets: TrackedWallet[] = [];
+  for (const r of dataRows) {
+    const fields: WalletFields = {};
+    for (const [col, idx] of Object.entries(cols) as [Column, number][]) fields[col] = r[idx];
+    const w = walletFromFields(fields);
+    if (w) wallets.push(w);
+  }
+
+  return wallets;
+}
+
+export function sheetCsvUrl(): string {
   const csvUrl =
     process.env.SHEET_CSV_URL ||
     (() => {
@@ -50,24 +143,42 @@ export async function fetchTrackedWallets(): Promise<TrackedWallet[]> {
   if (!csvUrl) {
     throw new Error("Missing SHEET_CSV_URL (preferred) or GOOGLE_SHEET_URL");
   }
+  return csvUrl;
+}
 
-  const res = await fetch(csvUrl, { cache: "no-store" });
-  if (!res.ok) throw new Error(`Failed to fetch sheet CSV: ${res.status}`);
+export type SheetValidators = {
+  etag?: string;
+  lastModified?: string;
+};
 
-  const text = await res.text();
-  const lines = text.split(/\r?\n/).filter((l) => l.trim().length > 0);
-  if (!lines.length) return [];
+export type SheetFetchResult = {
+  notModified: boolean;
+  wallets?: TrackedWallet[]; // set unless notModified
+  validators?: SheetValidators;
+};
 
-  const rows = lines.map(parseCsvLine);
-  const dataRows = detectHeader(rows[0]) ? rows.slice(1) : rows;
+// Conditional GET: returns notModified when the sheet's ETag/Last-Modified still match
+export async function fetchTrackedWalletsIfChanged(validators: SheetValidators = {}): Promise<SheetFetchResult> {
+  const headers: Record<string, string> = {};
+  if (validators.etag) headers["If-None-Match"] = validators.etag;
+  if (validators.lastModified) headers["If-Modified-Since"] = validators.lastModified;
 
-  const wallets: TrackedWallet[] = [];
-  for (const r of dataRows) {
-    const trader = (r[0] || "").trim();
-    const wallet = (r[1] || "").trim();
-    if (!trader || !wallet) continue;
-    wallets.push({ trader, wallet });
-  }
+  const res = await fetch(sheetCsvUrl(), { cache: "no-store", headers });
+  if (res.status === 304) return { notModified: true };
+  if (!res.ok) throw new Error(`Failed to fetch sheet CSV: ${res.status}`);
 
-  return wallets;
+  const text = await res.text();
+  return {
+    notModified: false,
+    wallets: parseTrackedWallets(text),
+    validators: {
+      etag: res.headers.get("etag") ?? undefined,
+      lastModified: res.headers.get("last-modified") ?? undefined,
+    },
+  };
+}
+
+export async function fetchTrackedWallets(): Promise<TrackedWallet[]> {
+  const res = await fetchTrackedWalletsIfChanged();
+  return res.wallets ?? [];
 }
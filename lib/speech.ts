@@ -0,0 +1,174 @@
+// Browser-only announcement queue on top of window.speechSynthesis.
+
+export type Announcement = {
+  text: string;
+  priority: number; // higher is spoken first; FIFO within a priority
+  // a pending announcement with the same key is folded into this one via merge()
+  coalesceKey?: string;
+  merge?: (pending: Announcement) => Announcement;
+  data?: any;
+  pitch?: number; // overrides the user's setting (e.g. a distinct voice line for clusters)
+  rate?: number;
+};
+
+export type VoiceSettings = {
+  voiceURI: string | null; // null = browser default
+  rate: number;
+  pitch: number;
+  volume: number;
+  maxBacklog: number; // pending announcements kept before the least important are dropped
+  bigTradeUsd: number; // trades at or above this jump the queue
+};
+
+export const DEFAULT_VOICE_SETTINGS: VoiceSettings = {
+  voiceURI: null,
+  rate: 1.15,
+  pitch: 1.0,
+  volume: 1.0,
+  maxBacklog: 8,
+  bigTradeUsd: 5000,
+};
+
+const SETTINGS_KEY = "pm-voice-settings";
+
+export function loadVoiceSettings(): VoiceSettings {
+  if (typeof window === "undefined") return DEFAULT_VOICE_SETTINGS;
+  try {
+    const raw = window.localStorage.getItem(SETTINGS_KEY);
+    return raw ? { ...DEFAULT_VOICE_SETTINGS, ...JSON.parse(raw) } : DEFAULT_VOICE_SETTINGS;
+  } catch {
+    return DEFAULT_VOICE_SETTINGS;
+  }
+}
+
+export function saveVoiceSettings(s: VoiceSettings) {
+  try {
+    window.localStorage.setItem(SETTINGS_KEY, JSON.stringify(s));
+  } catch {}
+}
+
+export type SpeechQueue = {
+  enqueue(a: Announcement): void;
+  clear(): void;
+  setSettings(s: VoiceSettings): void;
+  pending(): number;
+};
+
+export function createSpeechQueue(initial: VoiceSettings): SpeechQueue {
+  let settings = initial;
+  let queue: (Announcement & { seq: number })[] = [];
+  let seq = 0;
+  let current: SpeechSynthesisUtterance | null = null;
+  let watchdog: ReturnType<typeof setTimeout> | null = null;
+
+  function synth() {
+    return typeof window !== "undefined" ? window.speechSynthesis : undefined;
+  }
+
+  function pickVoice(): SpeechSynthesisVoice | null {
+    const s = synth();
+    if (!s || !settings.voiceURI) return null;
+    return s.getVoices().find((v) => v.voiceURI === settings.voiceURI) ?? null;
+  }
+
+  function done() {
+    if (watchdog) clearTimeout(watchdog);
+    watchdog = null;
+    current = null;
+    pump();
+  }
+
+  function pump() {
+    const s = synth();
+    if (!s || current || !queue.length) return;
+
+    // highest priority first, oldest first within a priority
+    queue.sort((a, b) => b.priority - a.priority || a.seq - b.seq);
+    const next = queue.shift()!;
+
+    const u = new SpeechSynthesisUtterance(next.text);
+    const voice = pickVoice();
+    if (voice) u.voice = voice;
+    u.rate = next.rate ?? settings.rate;
+    u.pitch = next.pitch ?? settings.pitch;
+    u.volume = settings.volume;
+    // ignore late callbacks from an utterance the watchdog already gave up on
+    const finish = () => {
+      if (current === u) done();
+    };
+    u.onend = finish;
+    u.onerror = finish;
+
+    current = u;
+    // some engines occasionally never fire onend; don't let that wedge the queue
+    watchdog = setTimeout(finish, 5000 + next.text.length * 150);
+    s.speak(u);
+  }
+
+  function trim() {
+    while (queue.length > settings.maxBacklog) {
+      // drop the least important, oldest announcement
+      let drop = 0;
+      for (let i = 1; i < queue.length; i++) {
+        const a = queue[i];
+        const d = queue[drop];
+        if (a.priority < d.priority || (a.priority === d.priority && a.seq < d.seq)) drop = i;
+      }
+      queue.splice(drop, 1);
+    }
+  }
+
+  return {
+    enqueue(a) {
+      const idx = a.coalesceKey ? queue.findIndex((q) => q.coalesceKey === a.coalesceKey) : -1;
+      if (idx >= 0 && a.merge) {
+        const prev = queue[idx];
+        const merged = a.merge(prev);
+        // keep the earlier slot so a burst doesn't keep getting pushed back
+        queue[idx] = { ...merged, priority: Math.max(prev.priority, merged.priority), seq: prev.seq };
+      } else {
+        queue.push({ ...a, seq: seq++ });
+      }
+      trim();
+      // deferred so a whole SSE batch is queued (and coalesced) before anything is spoken
+      setTimeout(pump, 0);
+    },
+
+    clear() {
+      queue = [];
+      synth()?.cancel();
+      done();
+    },
+
+    setSettings(s) {
+      settings = s;
+      trim();
+    },
+
+    pending() {
+      return queue.length;
+    },
+  };
+}
+
+let chimeCtx: AudioContext | null = null;
+
+// Two short sine notes; used by alert rules with the "chime" action
+export function playChime(volume = 1) {
+  if (typeof window === "undefined" || !window.AudioContext) return;
+  try {
+    chimeCtx = chimeCtx ?? new AudioContext();
+    const t0 = chimeCtx.currentTime;
+    [880, 1320].forEach((freq, i) => {
+      const osc = chimeCtx!.createOscillator();
+      const gain = chimeCtx!.createGain();
+      const start = t0 + i * 0.12;
+      osc.frequency.value = freq;
+      gain.gain.setValueAtTime(0.2 * volume, start);
+      gain.gain.exponentialRampToValueAtTime(0.001, start + 0.4);
+      osc.connect(gain).connect(chimeCtx!.destination);
+      osc.start(start);
+      osc.stop(start + 0.4);
+    });
+  } catch {}
+}
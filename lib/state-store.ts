@@ -0,0 +1,123 @@
+import { promises as fs } from "fs";
+import path from "path";
+import type { TradeEvent } from "@/lib/events";
+import type { Sequenced } from "@/lib/replay-buffer";
+import type { Position } from "@/lib/positions";
+
+export type PollerSnapshot = {
+  lastSeenByWallet: Record<string, number>; // timestampMs
+  lastSentIds: string[];
+  eventSeq: number;
+  recentEvents: Sequenced<TradeEvent>[];
+  positions: Position[];
+  baselines?: Record<string, number[]>; // recent trade sizes per wallet
+  savedAt: number;
+};
+
+export type StateStore = {
+  kind: string;
+  load(): Promise<PollerSnapshot | null>;
+  save(snapshot: PollerSnapshot): Promise<void>;
+};
+
+function parseSnapshot(data: any): PollerSnapshot {
+  return {
+    lastSeenByWallet: data?.lastSeenByWallet && typeof data.lastSeenByWallet === "object" ? data.lastSeenByWallet : {},
+    lastSentIds: Array.isArray(data?.lastSentIds) ? data.lastSentIds.map(String) : [],
+    eventSeq: Number(data?.eventSeq ?? 0),
+    recentEvents: Array.isArray(data?.recentEvents) ? data.recentEvents : [],
+    positions: Array.isArray(data?.positions) ? data.positions : [],
+    baselines: data?.baselines && typeof data.baselines === "object" ? data.baselines : undefined,
+    savedAt: Number(data?.savedAt ?? 0),
+  };
+}
+
+export function createMemoryStateStore(initial: PollerSnapshot | null = null): StateStore {
+  let current = initial;
+  return {
+    kind: "memory",
+    async load() {
+      return current ? structuredClone(current) : null;
+    },
+    async save(snapshot) {
+      current = structuredClone(snapshot);
+    },
+  };
+}
+
+export function createFileStateStore(filePath: string): StateStore {
+  const abs = path.resolve(filePath);
+
+  return {
+    kind: "file",
+    async load() {
+      let raw: string;
+      try {
+        raw = await fs.readFile(abs, "utf8");
+      } catch (err: any) {
+        if (err?.code === "ENOENT") return null;
+        throw err;
+      }
+
+      return parseSnapshot(JSON.parse(raw));
+    },
+    async save(snapshot) {
+      await fs.mkdir(path.dirname(abs), { recursive: true });
+      // write-then-rename so a crash mid-write never leaves a truncated file
+      const tmp = `${abs}.${process.pid}.tmp`;
+      await fs.writeFile(tmp, JSON.stringify(snapshot), "utf8");
+      await fs.rename(tmp, abs);
+    },
+  };
+}
+
+// For instances on different hosts: a failover leader must resume from the
+// snapshot the old leader saved, not from a stale one on its own disk
+export function createRedisStateStore(url: string, key: string): StateStore {
+  let client: Promise<import("ioredis").Redis> | null = null;
+
+  function redis() {
+    if (!client) {
+      client = import("ioredis").then(({ default: Redis }) => {
+        const r = new Redis(url);
+        r.on("error", (err) => console.error("[state] redis error", err));
+        return r;
+      });
+    }
+    return client;
+  }
+
+  return {
+    kind: "redis",
+    async load() {
+      const raw = await (await redis()).get(key);
+      return raw ? parseSnapshot(JSON.parse(raw)) : null;
+    },
+    async save(snapshot) {
+      await (await redis()).set(key, JSON.stringify(snapshot));
+    },
+  };
+}
+
+export function createStateStoreFromEnv(): StateStore {
+  const kind = (process.env.STATE_STORE || "file").toLowerCase();
+  if (kind === "memory") return createMemoryStateStore();
+  if (kind === "redis") {
+    const url = process.env.REDIS_URL;
+    if (!url) throw new Error("STATE_STORE=redis needs REDIS_URL");
+    return createRedisStateStore(url, process.env.STATE_KEY || "pm:poller-state");
+  }
+  if (kind !== "file") throw new Error(`Unknown STATE_STORE: ${kind}`);
+  return createFileStateStore(process.env.STATE_FILE || ".data/poller-state.json");
+}
+
+declare global {
+  // eslint-disable-next-line no-var
+  var __PM_STATE_STORE__: StateStore | undefined;
+}
+
+// One per process, so a Redis-backed store keeps a single connection
+export function getStateStore(): StateStore {
+  if (!globalThis.__PM_STATE_STORE__) globalThis.__PM_STATE_STORE__ = createStateStoreFromEnv();
+  return globalThis.__PM_STATE_STORE__!;
+}
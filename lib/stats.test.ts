@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import type { TradeEvent } from "@/lib/events";
+import { computeStats, computeWindowStats } from "@/lib/stats";
+
+const NOW = 10 * 86_400_000;
+const HOUR = 3_600_000;
+
+let n = 0;
+function trade(extra: Partial<TradeEvent>): TradeEvent {
+  n += 1;
+  return {
+    id: `t${n}`,
+    wallet: "0xaaa",
+    trader: "alice",
+    side: "BUY",
+    conditionId: "0xm1",
+    title: "Market one",
+    usdc: 100,
+    timestampMs: NOW - 1_000,
+    ...extra,
+  };
+}
+
+describe("computeWindowStats", () => {
+  it("ranks traders by volume and splits buys from sells", () => {
+    const events = [
+      trade({ usdc: 300 }),
+      trade({ side: "SELL", usdc: 100, conditionId: "0xm2" }),
+      trade({ wallet: "0xbbb", trader: "bob", usdc: 1_000 }),
+    ];
+    const s = computeWindowStats(events, "1h", NOW);
+
+    expect(s.volume).toBe(1_400);
+    expect(s.trades).toBe(3);
+    expect(s.traders.map((t) => t.trader)).toEqual(["bob", "alice"]);
+    const alice = s.traders[1];
+    expect(alice).toMatchObject({ volume: 400, buys: 1, sells: 1, buyVolume: 300, sellVolume: 100, markets: 2 });
+    expect(alice.buyRatio).toBeCloseTo(0.75);
+  });
+
+  it("counts distinct wallets per market, whatever the address case", () => {
+    const events = [trade({}), trade({ wallet: "0xAAA" }), trade({ wallet: "0xbbb", trader: "bob" })];
+    const [m] = computeWindowStats(events, "1h", NOW).markets;
+    expect(m).toMatchObject({ marketKey: "0xm1", trades: 3, traders: 2, volume: 300 });
+  });
+
+  it("only counts trades inside the window", () => {
+    const events = [trade({ timestampMs: NOW - 2 * HOUR }), trade({ timestampMs: NOW - HOUR / 2 })];
+    expect(computeWindowStats(events, "1h", NOW).trades).toBe(1);
+    expect(computeWindowStats(events, "24h", NOW).trades).toBe(2);
+  });
+
+  it("uses a trader's latest name", () => {
+    const events = [
+      trade({ trader: "new name", timestampMs: NOW - 10 }),
+      trade({ trader: "old", timestampMs: NOW - 50 }),
+    ];
+    expect(computeWindowStats(events, "1h", NOW).traders[0].trader).toBe("new name");
+  });
+
+  it("lists the biggest trades without their position details", () => {
+    const events = [
+      trade({ usdc: 50 }),
+      trade({ usdc: 5_000, position: { action: "opened", sharesAfter: 1, avgPrice: 1, costBasis: 1, realizedPnl: 0 } }),
+      trade({ usdc: undefined }),
+    ];
+    const { biggestTrades } = computeWindowStats(events, "1h", NOW);
+    expect(biggestTrades.map((e) => e.usdc)).toEqual([5_000, 50]);
+    expect(biggestTrades[0].position).toBeUndefined();
+  });
+
+  it("gives a null buy ratio without volume", () => {
+    expect(computeWindowStats([trade({ usdc: undefined })], "1h", NOW).traders[0].buyRatio).toBeNull();
+  });
+});
+
+describe("computeStats", () => {
+  it("computes every window", () => {
+    const stats = computeStats([trade({ timestampMs: NOW - 2 * 86_400_000 })], NOW);
+    expect(stats.generatedAt).toBe(NOW);
+    expect(stats.windows["1h"].trades).toBe(0);
+    expect(stats.windows["24h"].trades).toBe(0);
+    expect(stats.windows["7d"].trades).toBe(1);
+  });
+
+  it("leaves untracked watchlist trades out", () => {
+    const stats = computeStats(
+      [trade({}), trade({ wallet: "0xccc", trader: "stranger", usdc: 9_000, untracked: true })],
+      NOW
+    );
+    const w = stats.windows["1h"];
+    expect(w.traders.map((t) => t.trader)).toEqual(["alice"]);
+    expect(w.volume).toBe(100);
+    expect(w.markets[0].traders).toBe(1);
+    expect(w.biggestTrades.every((e) => !e.untracked)).toBe(true);
+  });
+});
@@ -0,0 +1,156 @@
+import type { TradeEvent } from "@/lib/events";
+
+export const STATS_WINDOWS = { "1h": 3_600_000, "24h": 86_400_000, "7d": 7 * 86_400_000 } as const;
+
+export type StatsWindow = keyof typeof STATS_WINDOWS;
+
+export type TraderStats = {
+  trader: string;
+  wallet: string;
+  volume: number;
+  buyVolume: number;
+  sellVolume: number;
+  trades: number;
+  buys: number;
+  sells: number;
+  buyRatio: number | null; // share of volume that was buys; null without volume
+  markets: number; // distinct markets touched
+  lastTradeAt: number;
+};
+
+export type MarketStats = {
+  marketKey: string;
+  title?: string;
+  slug?: string;
+  marketUrl?: string;
+  volume: number;
+  trades: number;
+  traders: number; // distinct tracked wallets
+  buyVolume: number;
+  sellVolume: number;
+};
+
+export type WindowStats = {
+  window: StatsWindow;
+  from: number;
+  volume: number;
+  trades: number;
+  traders: TraderStats[]; // leaderboard, by volume
+  markets: MarketStats[]; // most traded, by volume
+  biggestTrades: TradeEvent[];
+};
+
+export type Stats = {
+  generatedAt: number;
+  windows: Record<StatsWindow, WindowStats>;
+};
+
+const TOP_N = 10;
+
+function marketKey(e: TradeEvent) {
+  return e.conditionId || e.slug || e.title || "unknown";
+}
+
+export function computeWindowStats(events: TradeEvent[], window: StatsWindow, now = Date.now()): WindowStats {
+  const from = now - STATS_WINDOWS[window];
+  const inWindow = events.filter((e) => e.timestampMs >= from && e.timestampMs <= now);
+
+  const traders = new Map<string, TraderStats & { marketKeys: Set<string> }>();
+  const markets = new Map<string, MarketStats & { wallets: Set<string> }>();
+  let volume = 0;
+
+  for (const e of inWindow) {
+    const usd = e.usdc ?? 0;
+    const buy = e.side === "BUY";
+    const wallet = e.wallet.toLowerCase();
+    const mk = marketKey(e);
+    volume += usd;
+
+    let t = traders.get(wallet);
+    if (!t) {
+      t = {
+        trader: e.trader,
+        wallet: e.wallet,
+        volume: 0,
+        buyVolume: 0,
+        sellVolume: 0,
+        trades: 0,
+        buys: 0,
+        sells: 0,
+        buyRatio: null,
+        markets: 0,
+        lastTradeAt: 0,
+        marketKeys: new Set(),
+      };
+      traders.set(wallet, t);
+    }
+    t.volume += usd;
+    t.trades++;
+    if (buy) {
+      t.buys++;
+      t.buyVolume += usd;
+    } else {
+      t.sells++;
+      t.sellVolume += usd;
+    }
+    t.marketKeys.add(mk);
+    if (e.timestampMs > t.lastTradeAt) {
+      t.lastTradeAt = e.timestampMs;
+      t.trader = e.trader; // latest name wins after a rename
+    }
+
+    let m = markets.get(mk);
+    if (!m) {
+      m = {
+        marketKey: mk,
+        title: e.title,
+        slug: e.slug,
+        marketUrl: e.marketUrl,
+        volume: 0,
+        trades: 0,
+        traders: 0,
+        buyVolume: 0,
+        sellVolume: 0,
+        wallets: new Set(),
+      };
+      markets.set(mk, m);
+    }
+    m.volume += usd;
+    m.trades++;
+    m.wallets.add(wallet);
+    m.marketUrl ??= e.marketUrl;
+    if (buy) m.buyVolume += usd;
+    else m.sellVolume += usd;
+  }
+
+  return {
+    window,
+    from,
+    volume,
+    trades: inWindow.length,
+    traders: Array.from(traders.values())
+      .map(({ marketKeys, ...t }) => ({
+        ...t,
+        markets: marketKeys.size,
+        buyRatio: t.volume > 0 ? t.buyVolume / t.volume : null,
+      }))
+      .sort((a, b) => b.volume - a.volume || b.trades - a.trades),
+    markets: Array.from(markets.values())
+      .map(({ wallets, ...m }) => ({ ...m, traders: wallets.size }))
+      .sort((a, b) => b.volume - a.volume || b.trades - a.trades)
+      .slice(0, TOP_N),
+    biggestTrades: inWindow
+      .filter((e) => Number.isFinite(e.usdc ?? NaN))
+      .sort((a, b) => b.usdc! - a.usdc!)
+      .slice(0, TOP_N)
+      .map(({ position, ...e }) => e),
+  };
+}
+
+export function computeStats(events: TradeEvent[], now = Date.now()): Stats {
+  // the history also holds watchlist trades by wallets nobody tracks
+  const tracked = events.filter((e) => !e.untracked);
+  const windows = {} as Record<StatsWindow, WindowStats>;
+  for (const w of Object.keys(STATS_WINDOWS) as StatsWindow[]) windows[w] = computeWindowStats(tracked, w, now);
+  return { generatedAt: now, windows };
+}
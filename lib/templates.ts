@@ -0,0 +1,162 @@
+import type { TradeEvent } from "@/lib/events";
+import { spokenDollars, spokenPrice, spokenQuantity } from "@/lib/humanize";
+
+export type MarketAlias = {
+  match: string; // market slug, or a substring of the title (case-insensitive)
+  alias: string;
+};
+
+export type AnnouncementSettings = {
+  speechTemplate: string;
+  logTemplate: string;
+  traderAliases: Record<string, string>; // trader name -> spoken name
+  marketAliases: MarketAlias[];
+};
+
+export const DEFAULT_ANNOUNCEMENT_SETTINGS: AnnouncementSettings = {
+  speechTemplate: "{trader} {verb} {shares} shares of {outcome} in {title}[ at {price} per share][ for {usd}]",
+  logTemplate: "{trader} {verb} {shares} shares {outcome} in {title}",
+  traderAliases: {},
+  marketAliases: [],
+};
+
+// shown in the settings UI; any other TradeEvent field also works, e.g. {wallet}
+export const TEMPLATE_PLACEHOLDERS = [
+  "trader",
+  "verb",
+  "side",
+  "shares",
+  "outcome",
+  "title",
+  "price",
+  "usd",
+  "now",
+  "category",
+  "wallet",
+  "time",
+  "position",
+];
+
+export type TemplateMode = "speech" | "text";
+
+export type TemplatePart = { text: string; field?: string };
+
+const SETTINGS_KEY = "pm-announce-settings";
+
+export function loadAnnouncementSettings(): AnnouncementSettings {
+  if (typeof window === "undefined") return DEFAULT_ANNOUNCEMENT_SETTINGS;
+  try {
+    const raw = window.localStorage.getItem(SETTINGS_KEY);
+    return raw ? { ...DEFAULT_ANNOUNCEMENT_SETTINGS, ...JSON.parse(raw) } : DEFAULT_ANNOUNCEMENT_SETTINGS;
+  } catch {
+    return DEFAULT_ANNOUNCEMENT_SETTINGS;
+  }
+}
+
+export function saveAnnouncementSettings(s: AnnouncementSettings) {
+  try {
+    window.localStorage.setItem(SETTINGS_KEY, JSON.stringify(s));
+  } catch {}
+}
+
+function fmt(n: number, digits: number) {
+  return new Intl.NumberFormat("en-US", { minimumFractionDigits: digits, maximumFractionDigits: digits }).format(n);
+}
+
+function fmtTime(tsMs: number) {
+  return new Intl.DateTimeFormat("en-US", {
+    timeZone: "America/New_York",
+    hour: "2-digit",
+    minute: "2-digit",
+    hour12: false,
+  }).format(new Date(tsMs));
+}
+
+export function traderName(e: TradeEvent, s: AnnouncementSettings, mode: TemplateMode) {
+  if (mode === "text") return e.trader;
+  const alias = Object.entries(s.traderAliases).find(([name]) => name.toLowerCase() === e.trader.toLowerCase());
+  return alias?.[1] || e.voiceAlias || e.trader;
+}
+
+export function marketTitle(e: { title?: string; slug?: string }, s: AnnouncementSettings) {
+  const title = e.title || "";
+  const slug = (e.slug || "").toLowerCase();
+  for (const a of s.marketAliases) {
+    const m = a.match.trim().toLowerCase();
+    if (m && (m === slug || title.toLowerCase().includes(m))) return a.alias;
+  }
+  return title || "a market";
+}
+
+const POSITION_WORDS: Record<NonNullable<TradeEvent["position"]>["action"], string> = {
+  opened: "opening a position",
+  added: "adding to a position",
+  trimmed: "trimming a position",
+  closed: "closing out a position",
+  sold: "selling",
+};
+
+export function templateValues(e: TradeEvent, s: AnnouncementSettings, mode: TemplateMode): Record<string, string> {
+  const speech = mode === "speech";
+  const num = (v?: number) => Number.isFinite(v ?? NaN);
+
+  const values: Record<string, string> = {};
+  // raw fields first so {wallet}, {tx} etc. work; the friendly ones below win
+  for (const [k, v] of Object.entries(e)) {
+    if (typeof v === "string" || typeof v === "number") values[k] = String(v);
+  }
+
+  return Object.assign(values, {
+    trader: traderName(e, s, mode),
+    verb: e.side === "BUY" ? "bought" : "sold",
+    side: e.side,
+    shares: num(e.shares) ? (speech ? spokenQuantity(e.shares!) : fmt(e.shares!, 0)) : "",
+    outcome: (e.outcome || "").trim(),
+    title: marketTitle(e, s),
+    price: num(e.price) ? (speech ? spokenPrice(e.price!) : `$${fmt(e.price!, 3)}`) : "",
+    now: num(e.currentPrice) ? (speech ? spokenPrice(e.currentPrice!) : `$${fmt(e.currentPrice!, 3)}`) : "",
+    usd: num(e.usdc) ? (speech ? spokenDollars(e.usdc!) : `$${fmt(e.usdc!, 2)}`) : "",
+    time: fmtTime(e.timestampMs),
+    position: e.position ? POSITION_WORDS[e.position.action] : "",
+  });
+}
+
+// `{name}` is replaced by a value; `[ … ]` is an optional section that is dropped
+// when any placeholder inside it is empty.
+export function renderTemplateParts(template: string, values: Record<string, string>): TemplatePart[] {
+  function expand(segment: string, strict: boolean): TemplatePart[] | null {
+    const out: TemplatePart[] = [];
+    for (const piece of segment.split(/(\{\w+\})/)) {
+      if (!piece) continue;
+      const key = piece.match(/^\{(\w+)\}$/)?.[1];
+      if (!key) {
+        out.push({ text: piece });
+        continue;
+      }
+      const v = values[key] ?? "";
+      if (!v && strict) return null;
+      out.push({ text: v, field: key });
+    }
+    return out;
+  }
+
+  const parts: TemplatePart[] = [];
+  for (const piece of template.split(/(\[[^\]]*\])/)) {
+    if (!piece) continue;
+    const optional = piece.startsWith("[") && piece.endsWith("]");
+    parts.push(...((optional ? expand(piece.slice(1, -1), true) : expand(piece, false)) ?? []));
+  }
+  return parts;
+}
+
+export function renderTemplate(template: string, values: Record<string, string>): string {
+  return renderTemplateParts(template, values)
+    .map((p) => p.text)
+    .join("")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+export function renderEvent(e: TradeEvent, s: AnnouncementSettings, mode: TemplateMode): string {
+  return renderTemplate(mode === "speech" ? s.speechTemplate : s.logTemplate, templateValues(e, s, mode));
+}
@@ -0,0 +1,100 @@
+import { toTradeEvent, type TradeEvent } from "@/lib/events";
+import type { PolymarketTrade } from "@/lib/polymarket";
+import type { TrackedWallet } from "@/lib/sheets";
+
+// Which trades have already been emitted: a per-wallet timestamp cursor plus
+// recent event ids. Shared by the server's poller and the headless CLI.
+
+export type TradeCursor = {
+  // enriches trades newer than the wallet's cursor, drops ones already emitted
+  // and advances the cursor; `fresh` counts trades past the cursor before dedupe
+  take(w: TrackedWallet, trades: PolymarketTrade[]): Promise<{ fresh: number; events: TradeEvent[] }>;
+  // the same for a feed of many wallets' trades under one cursor `key`; trades
+  // `walletFor` returns null for are passed over. A feed's first take only sets
+  // its cursor, so adding one doesn't replay its history.
+  takeFeed(
+    key: string,
+    trades: PolymarketTrade[],
+    walletFor: (t: PolymarketTrade) => TrackedWallet | null
+  ): Promise<{ fresh: number; events: TradeEvent[] }>;
+  // moves every wallet without a newer cursor to `ts` (e.g. a --since start)
+  setFloor(ts: number): void;
+  snapshot(): { lastSeenByWallet: Record<string, number>; lastSentIds: string[] };
+};
+
+const MAX_SENT_IDS = 5000;
+
+export function createTradeCursor(restore?: {
+  lastSeenByWallet: Record<string, number>;
+  lastSentIds: string[];
+}): TradeCursor {
+  const lastSeenByWallet = new Map<string, number>(); // timestampMs
+  let lastSentIds = new Set<string>();
+  let floor = 0;
+
+  for (const [wallet, ts] of Object.entries(restore?.lastSeenByWallet ?? {})) {
+    const n = Number(ts);
+    if (Number.isFinite(n)) lastSeenByWallet.set(wallet, n);
+  }
+  for (const id of restore?.lastSentIds ?? []) lastSentIds.add(id);
+
+  function lastSeen(wallet: string) {
+    return Math.max(floor, lastSeenByWallet.get(wallet) ?? 0);
+  }
+
+  async function takeTrades(
+    key: string,
+    trades: PolymarketTrade[],
+    walletFor: (t: PolymarketTrade) => TrackedWallet | null
+  ) {
+    const since = lastSeen(key);
+
+    // Only consider trades newer than lastSeen (filtered first so old trades aren't enriched)
+    const fresh = trades.filter((t) => t.timestamp > since);
+    if (!fresh.length) return { fresh: 0, events: [] };
+
+    lastSeenByWallet.set(key, Math.max(...fresh.map((t) => t.timestamp)));
+
+    const wanted = fresh.map((t) => ({ t, w: walletFor(t) })).filter((x) => x.w !== null);
+    const enriched = await Promise.all(wanted.map(({ t, w }) => toTradeEvent(t, w!)));
+
+    const events: TradeEvent[] = [];
+    for (const e of enriched) {
+      // global dedupe (tx hash based id)
+      if (lastSentIds.has(e.id)) continue;
+      lastSentIds.add(e.id);
+
+      // keep set from growing forever
+      if (lastSentIds.size > MAX_SENT_IDS) lastSentIds = new Set(Array.from(lastSentIds).slice(-MAX_SENT_IDS / 2));
+
+      events.push(e);
+    }
+    return { fresh: fresh.length, events };
+  }
+
+  return {
+    take(w, trades) {
+      return takeTrades(w.wallet, trades, () => w);
+    },
+
+    async takeFeed(key, trades, walletFor) {
+      if (!lastSeenByWallet.has(key) && !floor) {
+        const newest = Math.max(0, ...trades.map((t) => t.timestamp));
+        lastSeenByWallet.set(key, newest);
+        return { fresh: 0, events: [] };
+      }
+      return takeTrades(key, trades, walletFor);
+    },
+
+    setFloor(ts) {
+      floor = ts;
+    },
+
+    snapshot() {
+      return {
+        lastSeenByWallet: Object.fromEntries(lastSeenByWallet),
+        lastSentIds: Array.from(lastSentIds),
+      };
+    },
+  };
+}
@@ -0,0 +1,191 @@
+import { promises as fs } from "fs";
+import path from "path";
+import type { TradeEvent } from "@/lib/events";
+import { matchesFilter, type StreamFilter } from "@/lib/filters";
+
+// Append-only JSONL log of every trade the poller (or a backfill) has seen.
+// The file is the source of truth; each process keeps an in-memory index and
+// reads whatever other processes appended since its last look.
+
+export type TradeQuery = StreamFilter & {
+  from?: number; // timestampMs, inclusive
+  to?: number; // timestampMs, exclusive
+  limit: number;
+  cursor?: string;
+};
+
+export type TradePage = {
+  trades: TradeEvent[];
+  nextCursor: string | null;
+};
+
+export type TradeHistory = {
+  filePath: string;
+  // returns how many events were new
+  append(events: TradeEvent[]): Promise<number>;
+  query(q: TradeQuery): Promise<TradePage>;
+  // every event at or after `from`, newest first
+  since(from: number): Promise<TradeEvent[]>;
+  count(): Promise<number>;
+};
+
+// newest first; ties broken by id so a cursor always points at one spot
+function compare(a: TradeEvent, b: TradeEvent) {
+  return b.timestampMs - a.timestampMs || (a.id < b.id ? 1 : a.id > b.id ? -1 : 0);
+}
+
+export function encodeCursor(e: TradeEvent): string {
+  return Buffer.from(JSON.stringify([e.timestampMs, e.id])).toString("base64url");
+}
+
+export function decodeCursor(cursor: string): { timestampMs: number; id: string } | null {
+  try {
+    const [timestampMs, id] = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if (!Number.isFinite(timestampMs) || typeof id !== "string") return null;
+    return { timestampMs, id };
+  } catch {
+    return null;
+  }
+}
+
+export function createTradeHistory(filePath: string): TradeHistory {
+  const abs = path.resolve(filePath);
+  const byId = new Map<string, TradeEvent>();
+  let sorted: TradeEvent[] = [];
+  let dirty = false;
+  let readOffset = 0;
+  let lock: Promise<unknown> = Promise.resolve();
+
+  // serialize file access within this process
+  function exclusive<T>(fn: () => Promise<T>): Promise<T> {
+    const run = lock.then(fn, fn);
+    lock = run.catch(() => {});
+    return run;
+  }
+
+  function index(e: TradeEvent) {
+    if (!e?.id || byId.has(e.id)) return false;
+    byId.set(e.id, e);
+    dirty = true;
+    return true;
+  }
+
+  // pick up lines appended since the last read (ours or another process's)
+  async function sync() {
+    let handle: fs.FileHandle;
+    try {
+      handle = await fs.open(abs, "r");
+    } catch (err: any) {
+      if (err?.code === "ENOENT") return;
+      throw err;
+    }
+    try {
+      const { size } = await handle.stat();
+      if (size < readOffset) {
+        // truncated or replaced; start over
+        byId.clear();
+        readOffset = 0;
+        dirty = true;
+      }
+      if (size === readOffset) return;
+
+      const buf = Buffer.alloc(size - readOffset);
+      await handle.read(buf, 0, buf.length, readOffset);
+      // only consume complete lines; a concurrent writer may be mid-line
+      const end = buf.lastIndexOf(0x0a);
+      if (end < 0) return;
+      readOffset += end + 1;
+
+      for (const line of buf.subarray(0, end).toString("utf8").split("\n")) {
+        if (!line.trim()) continue;
+        try {
+          index(JSON.parse(line));
+        } catch {
+          // skip a corrupt line rather than losing the whole history
+        }
+      }
+    } finally {
+      await handle.close();
+    }
+  }
+
+  function ordered() {
+    if (dirty) {
+      sorted = Array.from(byId.values()).sort(compare);
+      dirty = false;
+    }
+    return sorted;
+  }
+
+  return {
+    filePath: abs,
+
+    append(events) {
+      return exclusive(async () => {
+        await sync();
+        const fresh = events.filter((e) => e?.id && !byId.has(e.id));
+        if (!fresh.length) return 0;
+
+        await fs.mkdir(path.dirname(abs), { recursive: true });
+        await fs.appendFile(abs, fresh.map((e) => JSON.stringify(e) + "\n").join(""), "utf8");
+        await sync();
+        return fresh.length;
+      });
+    },
+
+    query(q) {
+      return exclusive(async () => {
+        await sync();
+        const after = q.cursor ? decodeCursor(q.cursor) : null;
+        if (q.cursor && !after) throw new Error("Invalid cursor");
+
+        const trades: TradeEvent[] = [];
+        let more = false;
+        for (const e of ordered()) {
+          if (after && compare(e, { timestampMs: after.timestampMs, id: after.id } as TradeEvent) <= 0) continue;
+          if (q.to !== undefined && e.timestampMs >= q.to) continue;
+          // sorted newest first, so nothing past here can match
+          if (q.from !== undefined && e.timestampMs < q.from) break;
+          if (!matchesFilter(e, q)) continue;
+
+          if (trades.length === q.limit) {
+            more = true;
+            break;
+          }
+          trades.push(e);
+        }
+
+        return { trades, nextCursor: more ? encodeCursor(trades[trades.length - 1]) : null };
+      });
+    },
+
+    since(from) {
+      return exclusive(async () => {
+        await sync();
+        const list = ordered();
+        let end = 0;
+        while (end < list.length && list[end].timestampMs >= from) end++;
+        return list.slice(0, end);
+      });
+    },
+
+    count() {
+      return exclusive(async () => {
+        await sync();
+        return byId.size;
+      });
+    },
+  };
+}
+
+declare global {
+  // eslint-disable-next-line no-var
+  var __PM_TRADE_HISTORY__: TradeHistory | undefined;
+}
+
+export function getTradeHistory(): TradeHistory {
+  if (!globalThis.__PM_TRADE_HISTORY__) {
+    globalThis.__PM_TRADE_HISTORY__ = createTradeHistory(process.env.TRADE_HISTORY_FILE || ".data/trades.jsonl");
+  }
+  return globalThis.__PM_TRADE_HISTORY__;
+}
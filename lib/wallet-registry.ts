@@ -0,0 +1,108 @@
+import type { TrackedWallet } from "@/lib/sheets";
+import type { SourceValidators, WalletSource } from "@/lib/wallet-sources";
+
+export type WalletListChange = {
+  added: TrackedWallet[];
+  removed: TrackedWallet[];
+};
+
+export type WalletRegistryStatus = {
+  source: WalletSource["kind"];
+  walletCount: number;
+  lastCheckedAt: number;
+  lastChangedAt: number;
+  lastSuccessAt: number;
+  lastError?: string;
+};
+
+export type WalletRegistry = {
+  get(): Promise<TrackedWallet[]>;
+  refresh(): Promise<TrackedWallet[]>;
+  onChange(listener: (change: WalletListChange) => void): () => void;
+  status(): WalletRegistryStatus;
+};
+
+function walletKey(w: TrackedWallet) {
+  return w.wallet.toLowerCase();
+}
+
+export function diffWallets(prev: TrackedWallet[], next: TrackedWallet[]): WalletListChange {
+  const prevKeys = new Set(prev.map(walletKey));
+  const nextKeys = new Set(next.map(walletKey));
+  return {
+    added: next.filter((w) => !prevKeys.has(walletKey(w))),
+    removed: prev.filter((w) => !nextKeys.has(walletKey(w))),
+  };
+}
+
+// Serves the last good wallet list, re-checking the source at most once per ttlMs
+// (or as soon as a watching source reports a change). A failed refresh keeps the
+// previous list; only a first load with no list throws.
+export function createWalletRegistry(source: WalletSource, ttlMs: number): WalletRegistry {
+  let wallets: TrackedWallet[] | null = null;
+  let validators: SourceValidators = {};
+  let inflight: Promise<TrackedWallet[]> | null = null;
+  const listeners = new Set<(change: WalletListChange) => void>();
+  const status: WalletRegistryStatus = { source: source.kind, walletCount: 0, lastCheckedAt: 0, lastChangedAt: 0, lastSuccessAt: 0 };
+
+  async function load(): Promise<TrackedWallet[]> {
+    status.lastCheckedAt = Date.now();
+    try {
+      const res = await source.load(wallets ? validators : {});
+      status.lastSuccessAt = Date.now();
+      status.lastError = undefined;
+      if (res.notModified && wallets) return wallets;
+      if (res.notModified) throw new Error("Wallet source reported no change before any list was loaded");
+
+      const prev = wallets;
+      wallets = res.wallets ?? [];
+      validators = res.validators ?? {};
+      status.walletCount = wallets.length;
+
+      // the first load is not a "change"
+      if (prev) {
+        const change = diffWallets(prev, wallets);
+        if (change.added.length || change.removed.length) {
+          status.lastChangedAt = Date.now();
+          for (const l of Array.from(listeners)) {
+            try {
+              l(change);
+            } catch {}
+          }
+        }
+      }
+      return wallets;
+    } catch (err: any) {
+      status.lastError = String(err?.message || err);
+      if (wallets) {
+        console.error("[wallets] refresh failed, serving last good list", err);
+        return wallets;
+      }
+      throw err;
+    }
+  }
+
+  function refresh() {
+    if (!inflight) inflight = load().finally(() => (inflight = null));
+    return inflight;
+  }
+
+  source.watch?.(() => {
+    refresh().catch(() => {});
+  });
+
+  return {
+    async get() {
+      if (wallets && Date.now() - status.lastCheckedAt < ttlMs) return wallets;
+      return refresh();
+    },
+    refresh,
+    onChange(listener) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    status() {
+      return { ...status };
+    },
+  };
+}
@@ -0,0 +1,179 @@
+import { promises as fs, watchFile, unwatchFile, type Stats } from "fs";
+import path from "path";
+import YAML from "yaml";
+import {
+  columnForHeader,
+  fetchTrackedWalletsIfChanged,
+  parseTrackedWallets,
+  sheetCsvUrl,
+  walletFromFields,
+  type TrackedWallet,
+  type WalletFields,
+} from "@/lib/sheets";
+
+export type SourceValidators = {
+  etag?: string;
+  lastModified?: string;
+  mtimeMs?: number;
+};
+
+export type WalletSourceResult = {
+  notModified: boolean;
+  wallets?: TrackedWallet[]; // set unless notModified
+  validators?: SourceValidators;
+};
+
+export type WalletSource = {
+  kind: "sheet" | "file" | "http" | "env";
+  describe(): string;
+  load(validators?: SourceValidators): Promise<WalletSourceResult>;
+  // sources that can detect their own changes call onChange instead of waiting for the TTL
+  watch?(onChange: () => void): () => void;
+};
+
+// Accepts [{ trader|name, wallet|address, ...extras }], { wallets: [...] } or { "Alice": "0x…" }
+export function normalizeWalletRecords(data: unknown): TrackedWallet[] {
+  if (data && typeof data === "object" && !Array.isArray(data)) {
+    const obj = data as Record<string, unknown>;
+    if (Array.isArray(obj.wallets)) return normalizeWalletRecords(obj.wallets);
+    return normalizeWalletRecords(
+      Object.entries(obj)
+        .filter(([, v]) => typeof v === "string")
+        .map(([trader, wallet]) => ({ trader, wallet }))
+    );
+  }
+  if (!Array.isArray(data)) return [];
+
+  const wallets: TrackedWallet[] = [];
+  for (const raw of data) {
+    if (!raw || typeof raw !== "object") continue;
+    // keys go through the sheet's header aliases, so "name", "Wallet Address" or "groups" work here too
+    const fields: WalletFields = {};
+    for (const [key, value] of Object.entries(raw)) {
+      const col = columnForHeader(key);
+      if (col) fields[col] ??= value;
+    }
+    const w = walletFromFields(fields);
+    if (w) wallets.push(w);
+  }
+  return wallets;
+}
+
+export function createSheetSource(): WalletSource {
+  return {
+    kind: "sheet",
+    describe: () => `sheet ${sheetCsvUrl()}`,
+    load: (validators) => fetchTrackedWalletsIfChanged(validators),
+  };
+}
+
+export function createFileSource(filePath: string): WalletSource {
+  const abs = path.resolve(filePath);
+  const ext = path.extname(abs).toLowerCase();
+
+  function parse(text: string): TrackedWallet[] {
+    if (ext === ".json") return normalizeWalletRecords(JSON.parse(text));
+    if (ext === ".yaml" || ext === ".yml") return normalizeWalletRecords(YAML.parse(text));
+    return parseTrackedWallets(text);
+  }
+
+  return {
+    kind: "file",
+    describe: () => `file ${abs}`,
+    async load(validators) {
+      const stat = await fs.stat(abs);
+      if (validators?.mtimeMs !== undefined && validators.mtimeMs === stat.mtimeMs) {
+        return { notModified: true };
+      }
+      const text = await fs.readFile(abs, "utf8");
+      return { notModified: false, wallets: parse(text), validators: { mtimeMs: stat.mtimeMs } };
+    },
+    watch(onChange) {
+      // stat polling survives editors that save via rename, unlike fs.watch
+      const listener = (curr: Stats, prev: Stats) => {
+        if (curr.mtimeMs !== prev.mtimeMs) onChange();
+      };
+      watchFile(abs, { interval: 1000, persistent: false }, listener);
+      return () => unwatchFile(abs, listener);
+    },
+  };
+}
+
+export function createHttpJsonSource(url: string): WalletSource {
+  return {
+    kind: "http",
+    describe: () => `http ${url}`,
+    async load(validators = {}) {
+      const headers: Record<string, string> = { Accept: "application/json" };
+      if (validators.etag) headers["If-None-Match"] = validators.etag;
+      if (validators.lastModified) headers["If-Modified-Since"] = validators.lastModified;
+
+      const res = await fetch(url, { cache: "no-store", headers });
+      if (res.status === 304) return { notModified: true };
+      if (!res.ok) throw new Error(`Failed to fetch wallet list: ${res.status}`);
+
+      return {
+        notModified: false,
+        wallets: normalizeWalletRecords(await res.json()),
+        validators: {
+          etag: res.headers.get("etag") ?? undefined,
+          lastModified: res.headers.get("last-modified") ?? undefined,
+        },
+      };
+    },
+  };
+}
+
+// TRACKED_WALLETS is either JSON or "Alice=0xabc, Bob:0xdef" (comma/newline separated)
+export function parseInlineWallets(raw: string): TrackedWallet[] {
+  const text = raw.trim();
+  if (text.startsWith("[") || text.startsWith("{")) return normalizeWalletRecords(JSON.parse(text));
+
+  const wallets: TrackedWallet[] = [];
+  for (const entry of text.split(/[\n,]/)) {
+    const m = entry.trim().match(/^(.+?)\s*[=:]\s*(\S+)$/);
+    if (m) wallets.push({ trader: m[1].trim(), wallet: m[2].trim() });
+  }
+  return wallets;
+}
+
+export function createEnvSource(raw: string): WalletSource {
+  const wallets = parseInlineWallets(raw);
+  return {
+    kind: "env",
+    describe: () => `env TRACKED_WALLETS (${wallets.length})`,
+    async load() {
+      return { notModified: false, wallets };
+    },
+  };
+}
+
+export function createWalletSourceFromEnv(): WalletSource {
+  const kind = (process.env.WALLET_SOURCE || "").toLowerCase();
+
+  const file = process.env.WALLETS_FILE;
+  const url = process.env.WALLETS_JSON_URL;
+  const inline = process.env.TRACKED_WALLETS;
+
+  switch (kind) {
+    case "sheet":
+      return createSheetSource();
+    case "file":
+      if (!file) throw new Error("WALLET_SOURCE=file requires WALLETS_FILE");
+      return createFileSource(file);
+    case "http":
+      if (!url) throw new Error("WALLET_SOURCE=http requires WALLETS_JSON_URL");
+      return createHttpJsonSource(url);
+    case "env":
+      if (!inline) throw new Error("WALLET_SOURCE=env requires TRACKED_WALLETS");
+      return createEnvSource(inline);
+    case "":
+      // not set: first configured source wins
+      if (inline) return createEnvSource(inline);
+      if (file) return createFileSource(file);
+      if (url) return createHttpJsonSource(url);
+      return createSheetSource();
+    default:
+      throw new Error(`Unknown WALLET_SOURCE: ${kind}`);
+  }
+}
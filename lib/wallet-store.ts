@@ -0,0 +1,218 @@
+import { normalizeAddress } from "@/lib/address";
+import { InputError } from "@/lib/input-error";
+import { createJsonFileStore, type JsonFileStore } from "@/lib/json-file-store";
+import type { TrackedWallet } from "@/lib/sheets";
+import { createWalletSourceFromEnv, type WalletSource } from "@/lib/wallet-sources";
+
+// A local edit on top of (overlay) or instead of (replace) the configured source
+export type WalletOverride = Partial<TrackedWallet> & {
+  wallet: string; // checksummed
+  removed?: boolean; // overlay tombstone
+  updatedAt: number;
+};
+
+export type WalletStoreMode = "overlay" | "replace";
+
+export type WalletInput = Partial<Omit<TrackedWallet, "wallet">>;
+
+export class WalletInputError extends InputError {
+  name = "WalletInputError";
+}
+
+type Overrides = Map<string, WalletOverride>; // key: lowercase address
+
+type WalletStore = {
+  mode: WalletStoreMode;
+  overrides: JsonFileStore<Overrides>;
+  listeners: Set<() => void>;
+};
+
+declare global {
+  // eslint-disable-next-line no-var
+  var __PM_WALLET_STORE__: WalletStore | undefined;
+}
+
+function getStore(): WalletStore {
+  if (!globalThis.__PM_WALLET_STORE__) {
+    globalThis.__PM_WALLET_STORE__ = {
+      mode: process.env.WALLETS_STORE_MODE === "replace" ? "replace" : "overlay",
+      overrides: createJsonFileStore<Overrides>({
+        name: "wallets",
+        file: () => process.env.WALLETS_STORE_FILE || ".data/wallets.json",
+        decode(data) {
+          const overrides: Overrides = new Map();
+          for (const o of Array.isArray(data?.wallets) ? data.wallets : []) {
+            if (o?.wallet) overrides.set(String(o.wallet).toLowerCase(), o);
+          }
+          return overrides;
+        },
+        encode: (overrides) => ({ wallets: Array.from(overrides.values()) }),
+      }),
+      listeners: new Set(),
+    };
+  }
+  return globalThis.__PM_WALLET_STORE__!;
+}
+
+// an override of "" clears a text field the source sets
+function withoutCleared(w: TrackedWallet): TrackedWallet {
+  const out = { ...w };
+  if (!out.voiceAlias) delete out.voiceAlias;
+  if (!out.notes) delete out.notes;
+  return out;
+}
+
+export function applyOverrides(
+  base: TrackedWallet[],
+  overrides: Iterable<WalletOverride>,
+  mode: WalletStoreMode
+): TrackedWallet[] {
+  const byKey = new Map<string, TrackedWallet>();
+  if (mode === "overlay") for (const w of base) byKey.set(w.wallet.toLowerCase(), w);
+
+  for (const o of Array.from(overrides)) {
+    const key = o.wallet.toLowerCase();
+    const existing = byKey.get(key);
+    if (o.removed) {
+      byKey.delete(key);
+      continue;
+    }
+    const { removed, updatedAt, ...fields } = o;
+    // keep the source's spelling of the address so poller cursors stay keyed the same
+    if (existing) byKey.set(key, withoutCleared({ ...existing, ...fields, wallet: existing.wallet }));
+    else if (fields.trader) byKey.set(key, withoutCleared(fields as TrackedWallet));
+  }
+
+  return Array.from(byKey.values());
+}
+
+// Validates a POST/PATCH body. `partial` allows omitting the trader name.
+export function parseWalletInput(body: any, partial: boolean): WalletInput {
+  if (!body || typeof body !== "object") throw new WalletInputError("Expected a JSON object");
+
+  const out: WalletInput = {};
+
+  if (body.trader !== undefined || !partial) {
+    const trader = typeof body.trader === "string" ? body.trader.trim() : "";
+    if (!trader) throw new WalletInputError("trader is required");
+    out.trader = trader;
+  }
+  if (body.minUsd !== undefined && body.minUsd !== null) {
+    const n = Number(body.minUsd);
+    if (!Number.isFinite(n) || n < 0) throw new WalletInputError("minUsd must be a non-negative number");
+    out.minUsd = n;
+  }
+  if (body.tags !== undefined) {
+    if (!Array.isArray(body.tags)) throw new WalletInputError("tags must be an array of strings");
+    out.tags = body.tags.map((t: unknown) => String(t).trim()).filter(Boolean);
+  }
+  // "" (not undefined, which JSON drops) so clearing also hides the source's value
+  if (body.voiceAlias !== undefined) out.voiceAlias = String(body.voiceAlias ?? "").trim();
+  if (body.notes !== undefined) out.notes = String(body.notes ?? "").trim();
+  if (body.muted !== undefined) out.muted = Boolean(body.muted);
+
+  return out;
+}
+
+function checkedAddress(value: unknown): string {
+  try {
+    return normalizeAddress(String(value ?? ""));
+  } catch (err: any) {
+    throw new WalletInputError(err.message);
+  }
+}
+
+// The configured source with local edits applied. Store edits are reported through
+// watch(), so the registry picks them up without waiting for its TTL.
+export function createManagedWalletSource(base: WalletSource = createWalletSourceFromEnv()): WalletSource {
+  const store = getStore();
+  let lastBase: TrackedWallet[] = [];
+
+  return {
+    kind: base.kind,
+    describe: () => `${base.describe()} + local ${store.mode}`,
+    async load(validators) {
+      const overrides = await store.overrides.read();
+      if (store.mode === "overlay") {
+        const res = await base.load(validators);
+        if (!res.notModified) lastBase = res.wallets ?? [];
+        validators = res.validators ?? validators;
+      }
+      return {
+        notModified: false,
+        wallets: applyOverrides(lastBase, overrides.values(), store.mode),
+        validators,
+      };
+    },
+    watch(onChange) {
+      store.listeners.add(onChange);
+      const stopBase = base.watch?.(onChange);
+      return () => {
+        store.listeners.delete(onChange);
+        stopBase?.();
+      };
+    },
+  };
+}
+
+export async function listManagedWallets(): Promise<TrackedWallet[]> {
+  const res = await createManagedWalletSource().load();
+  return res.wallets ?? [];
+}
+
+// Checks an edit against the current list and applies it to the store, one at
+// a time; watchers hear about it once it's on disk
+async function edit<T>(fn: (overrides: Overrides, current: TrackedWallet[]) => T): Promise<T> {
+  const store = getStore();
+  const result = await store.overrides.mutate(async (overrides) => {
+    const base = store.mode === "overlay" ? ((await createWalletSourceFromEnv().load()).wallets ?? []) : [];
+    return fn(overrides, applyOverrides(base, overrides.values(), store.mode));
+  });
+
+  for (const l of Array.from(store.listeners)) {
+    try {
+      l();
+    } catch {}
+  }
+  return result;
+}
+
+export async function addWallet(address: unknown, input: WalletInput): Promise<TrackedWallet> {
+  const wallet = checkedAddress(address);
+  return edit((overrides, current) => {
+    if (current.some((w) => w.wallet.toLowerCase() === wallet.toLowerCase())) {
+      throw new WalletInputError(`Wallet ${wallet} is already tracked`, 409);
+    }
+
+    overrides.set(wallet.toLowerCase(), { ...input, wallet, updatedAt: Date.now() });
+    return { ...input, wallet } as TrackedWallet;
+  });
+}
+
+export async function updateWallet(address: unknown, input: WalletInput): Promise<TrackedWallet> {
+  const wallet = checkedAddress(address);
+  const key = wallet.toLowerCase();
+  return edit((overrides, current) => {
+    const existing = current.find((w) => w.wallet.toLowerCase() === key);
+    if (!existing) throw new WalletInputError(`Wallet ${wallet} is not tracked`, 404);
+
+    const prev = overrides.get(key);
+    overrides.set(key, { ...prev, ...input, wallet, removed: undefined, updatedAt: Date.now() });
+    return withoutCleared({ ...existing, ...input });
+  });
+}
+
+export async function removeWallet(address: unknown): Promise<void> {
+  const store = getStore();
+  const wallet = checkedAddress(address);
+  const key = wallet.toLowerCase();
+  return edit((overrides, current) => {
+    if (!current.some((w) => w.wallet.toLowerCase() === key)) {
+      throw new WalletInputError(`Wallet ${wallet} is not tracked`, 404);
+    }
+
+    // in replace mode the store is the whole list; in overlay mode hide the source's row
+    if (store.mode === "replace") overrides.delete(key);
+    else overrides.set(key, { wallet, removed: true, updatedAt: Date.now() });
+  });
+}
@@ -0,0 +1,159 @@
+import { randomUUID } from "crypto";
+import type { TradeEvent } from "@/lib/events";
+import { InputError } from "@/lib/input-error";
+import { createJsonFileStore, type JsonFileStore } from "@/lib/json-file-store";
+import { getMarketClient } from "@/lib/markets";
+
+// Markets and title keywords watched for large trades by any wallet, in one
+// JSON file shared by every instance (the leader may be another instance than
+// the one that took the edit).
+
+export type Watch = {
+  id: string;
+  kind: "market" | "keyword";
+  label: string; // the market's title, or the keyword
+  conditionId?: string; // market
+  slug?: string; // market
+  keyword?: string; // lowercased
+  minUsd: number;
+  createdAt: number;
+};
+
+export type WatchInput = { market?: string; keyword?: string; minUsd?: number; label?: string };
+
+export const MAX_WATCHES = 50;
+const CONDITION_ID = /^0x[0-9a-fA-F]{64}$/;
+
+export class WatchInputError extends InputError {
+  name = "WatchInputError";
+}
+
+declare global {
+  // eslint-disable-next-line no-var
+  var __PM_WATCHLIST__: JsonFileStore<Watch[]> | undefined;
+}
+
+function defaultMinUsd() {
+  const n = Number(process.env.WATCH_MIN_USD);
+  return Number.isFinite(n) && n >= 0 ? n : 1000;
+}
+
+function getStore(): JsonFileStore<Watch[]> {
+  if (!globalThis.__PM_WATCHLIST__) {
+    globalThis.__PM_WATCHLIST__ = createJsonFileStore<Watch[]>({
+      name: "watchlist",
+      file: () => process.env.WATCHLIST_FILE || ".data/watchlist.json",
+      decode: (data) => (Array.isArray(data?.watches) ? data.watches : []),
+      encode: (watches) => ({ watches }),
+    });
+  }
+  return globalThis.__PM_WATCHLIST__!;
+}
+
+function parseMinUsd(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  const n = Number(value);
+  if (!Number.isFinite(n) || n < 0) throw new WatchInputError("minUsd must be a non-negative number");
+  return n;
+}
+
+// a condition id, a market slug, or a polymarket.com market URL (its last path segment)
+function marketRef(value: string) {
+  if (CONDITION_ID.test(value)) return { conditionId: value.toLowerCase() };
+  try {
+    const url = new URL(value);
+    const slug = url.pathname.split("/").filter(Boolean).pop();
+    if (slug) return { slug };
+  } catch {}
+  return { slug: value };
+}
+
+// Validates a POST body; markets are looked up on Gamma so trades can be matched by condition id
+export async function parseWatchInput(body: any): Promise<Omit<Watch, "id" | "createdAt">> {
+  if (!body || typeof body !== "object") throw new WatchInputError("Expected a JSON object");
+  const market = typeof body.market === "string" ? body.market.trim() : "";
+  const keyword = typeof body.keyword === "string" ? body.keyword.trim().toLowerCase() : "";
+  if (!market === !keyword) throw new WatchInputError("Give either market or keyword");
+
+  const minUsd = parseMinUsd(body.minUsd) ?? defaultMinUsd();
+  const label = typeof body.label === "string" && body.label.trim() ? body.label.trim() : undefined;
+
+  if (keyword) return { kind: "keyword", keyword, label: label ?? keyword, minUsd };
+
+  const ref = marketRef(market);
+  const info = await getMarketClient().get(ref);
+  const conditionId = info?.conditionId?.toLowerCase() ?? ref.conditionId;
+  // a bare condition id is enough to match trades; a slug has to be resolved
+  if (!conditionId) throw new WatchInputError(`Market "${market}" not found`, 404);
+  return {
+    kind: "market",
+    conditionId,
+    slug: info?.slug ?? ref.slug,
+    label: label ?? info?.question ?? info?.slug ?? conditionId,
+    minUsd,
+  };
+}
+
+export function parseWatchPatch(body: any): Partial<Pick<Watch, "minUsd" | "label">> {
+  if (!body || typeof body !== "object") throw new WatchInputError("Expected a JSON object");
+  const out: Partial<Pick<Watch, "minUsd" | "label">> = {};
+  const minUsd = parseMinUsd(body.minUsd);
+  if (minUsd !== undefined) out.minUsd = minUsd;
+  if (body.label !== undefined) {
+    const label = String(body.label ?? "").trim();
+    if (!label) throw new WatchInputError("label can't be empty");
+    out.label = label;
+  }
+  return out;
+}
+
+// The watches a trade falls under, size threshold included
+export function matchWatches(
+  t: Pick<TradeEvent, "conditionId" | "slug" | "title" | "usdc">,
+  watches: Watch[]
+): Watch[] {
+  const conditionId = (t.conditionId || "").toLowerCase();
+  const slug = (t.slug || "").toLowerCase();
+  const title = (t.title || "").toLowerCase();
+  return watches.filter((w) => {
+    if ((t.usdc ?? 0) < w.minUsd) return false;
+    if (w.kind === "market") return (!!conditionId && conditionId === w.conditionId) || (!!slug && slug === w.slug);
+    return title.includes(w.keyword!) || slug.includes(w.keyword!);
+  });
+}
+
+export function listWatches(): Promise<Watch[]> {
+  return getStore().read();
+}
+
+export function addWatch(input: Omit<Watch, "id" | "createdAt">): Promise<Watch> {
+  return getStore().mutate((watches) => {
+    if (watches.length >= MAX_WATCHES) throw new WatchInputError(`At most ${MAX_WATCHES} watches`);
+    const dupe = watches.find((w) =>
+      input.kind === "market" ? w.conditionId === input.conditionId : w.keyword === input.keyword
+    );
+    if (dupe) throw new WatchInputError(`Already watching ${dupe.label}`, 409);
+
+    const watch: Watch = { ...input, id: randomUUID(), createdAt: Date.now() };
+    watches.push(watch);
+    return watch;
+  });
+}
+
+export function updateWatch(id: unknown, input: Partial<Pick<Watch, "minUsd" | "label">>): Promise<Watch> {
+  return getStore().mutate((watches) => {
+    const existing = watches.find((w) => w.id === id);
+    if (!existing) throw new WatchInputError(`Watch ${id} not found`, 404);
+
+    Object.assign(existing, input);
+    return existing;
+  });
+}
+
+export function removeWatch(id: unknown): Promise<void> {
+  return getStore().mutate((watches) => {
+    const idx = watches.findIndex((w) => w.id === id);
+    if (idx < 0) throw new WatchInputError(`Watch ${id} not found`, 404);
+    watches.splice(idx, 1);
+  });
+}
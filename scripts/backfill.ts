@@ -0,0 +1,119 @@
+// Pages back through each tracked wallet's Data API history into the local
+// trade history store.
+//
+//   npm run backfill -- [--wallet 0x…]… [--since 2024-01-01] [--pages 50] [--page-size 100]
+//
+// Safe to re-run or run next to the server: events already in the history are skipped.
+
+import { toTradeEvent, type TradeEvent } from "@/lib/events";
+import { fetchLatestTradesForWallet, PolymarketApiError, type PolymarketTrade } from "@/lib/polymarket";
+import type { TrackedWallet } from "@/lib/sheets";
+import { getTradeHistory } from "@/lib/trade-history";
+import { createManagedWalletSource } from "@/lib/wallet-store";
+
+type Options = {
+  wallets: string[];
+  since?: number;
+  pages: number;
+  pageSize: number;
+};
+
+function parseArgs(argv: string[]): Options {
+  const opts: Options = { wallets: [], pages: 50, pageSize: 100 };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const value = () => {
+      const v = argv[++i];
+      if (v === undefined) throw new Error(`Missing value for ${arg}`);
+      return v;
+    };
+    switch (arg) {
+      case "--wallet":
+        opts.wallets.push(
+          ...value()
+            .split(",")
+            .map((w) => w.trim())
+            .filter(Boolean)
+        );
+        break;
+      case "--since": {
+        const v = value();
+        const ts = /^\d+$/.test(v) ? Number(v) : Date.parse(v);
+        if (!Number.isFinite(ts)) throw new Error(`Invalid --since: ${v}`);
+        opts.since = ts;
+        break;
+      }
+      case "--pages":
+        opts.pages = Math.max(1, Math.floor(Number(value())) || 1);
+        break;
+      case "--page-size":
+        opts.pageSize = Math.min(500, Math.max(1, Math.floor(Number(value())) || 100));
+        break;
+      default:
+        throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+  return opts;
+}
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+async function fetchPage(wallet: string, limit: number, offset: number): Promise<PolymarketTrade[] | null> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fetchLatestTradesForWallet(wallet, limit, offset);
+    } catch (err) {
+      // the Data API rejects offsets past the end of what it will page through
+      if (err instanceof PolymarketApiError && err.status === 400 && offset > 0) return null;
+      if (attempt >= 5) throw err;
+      const wait = err instanceof PolymarketApiError && err.retryAfterMs ? err.retryAfterMs : 1000 * 2 ** attempt;
+      console.error(`  ${String((err as Error).message || err)}; retrying in ${Math.round(wait / 1000)}s`);
+      await sleep(wait);
+    }
+  }
+}
+
+async function backfillWallet(w: TrackedWallet, opts: Options) {
+  const history = getTradeHistory();
+  let added = 0;
+  let seen = 0;
+
+  for (let page = 0; page < opts.pages; page++) {
+    const trades = await fetchPage(w.wallet, opts.pageSize, page * opts.pageSize);
+    if (!trades || !trades.length) break;
+
+    const inRange = trades.filter((t) => opts.since === undefined || t.timestamp >= opts.since);
+    const events: TradeEvent[] = [];
+    for (const t of inRange) events.push(await toTradeEvent(t, w));
+    added += await history.append(events);
+    seen += inRange.length;
+
+    // pages are newest first, so a short page or one reaching past --since is the last
+    if (trades.length < opts.pageSize || inRange.length < trades.length) break;
+  }
+
+  console.log(`${w.trader} (${w.wallet}): ${seen} trades, ${added} new`);
+}
+
+async function main() {
+  const opts = parseArgs(process.argv.slice(2));
+
+  const result = await createManagedWalletSource().load();
+  const tracked = result.wallets ?? [];
+  const wanted = opts.wallets.map((w) => w.toLowerCase());
+
+  const wallets: TrackedWallet[] = wanted.length
+    ? wanted.map((addr) => tracked.find((w) => w.wallet.toLowerCase() === addr) ?? { trader: addr, wallet: addr })
+    : tracked;
+
+  if (!wallets.length) throw new Error("No wallets to backfill (none tracked and no --wallet given)");
+
+  console.log(`Backfilling ${wallets.length} wallet(s) into ${getTradeHistory().filePath}`);
+  for (const w of wallets) await backfillWallet(w, opts);
+  console.log(`History now holds ${await getTradeHistory().count()} trades`);
+}
+
+main().catch((err) => {
+  console.error(err?.message || err);
+  process.exit(1);
+});
@@ -0,0 +1,203 @@
+// Headless tracker: polls the tracked wallets and prints new trades to stdout,
+// without the web server or a browser.
+//
+//   pm-tracker [--once] [--since 2024-01-01] [--wallet 0x…]… [--min-usd 1000]
+//              [--format pretty|ndjson] [--tts "espeak -s 160"]
+//
+// Without --since, a continuous run starts from now and --once prints each
+// wallet's latest trades. Logs go to stderr, so stdout can be piped. --once
+// exits 1 when none of the wallets could be fetched.
+
+import { spawn } from "child_process";
+import { mapWithConcurrency } from "@/lib/concurrency";
+import type { TradeEvent } from "@/lib/events";
+import { matchesFilter, type StreamFilter } from "@/lib/filters";
+import { fetchLatestTradesForWallet } from "@/lib/polymarket";
+import type { TrackedWallet } from "@/lib/sheets";
+import { createWalletScheduler, schedulerOptionsFromEnv } from "@/lib/scheduler";
+import { DEFAULT_ANNOUNCEMENT_SETTINGS, renderEvent, renderTemplate, templateValues } from "@/lib/templates";
+import { createTradeCursor } from "@/lib/trade-cursor";
+import { createWalletRegistry } from "@/lib/wallet-registry";
+import { createManagedWalletSource } from "@/lib/wallet-store";
+
+type Options = {
+  once: boolean;
+  since?: number;
+  wallets: string[];
+  minUsd?: number;
+  format: "pretty" | "ndjson";
+  tts?: string;
+};
+
+const PRETTY_TEMPLATE = "{time}  {trader} {verb} {shares} {outcome} in {title}[ at {price}][ for {usd}]";
+
+function parseArgs(argv: string[]): Options {
+  const opts: Options = { once: false, wallets: [], format: "pretty", tts: process.env.TTS_COMMAND || undefined };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const value = () => {
+      const v = argv[++i];
+      if (v === undefined) throw new Error(`Missing value for ${arg}`);
+      return v;
+    };
+    switch (arg) {
+      case "--once":
+        opts.once = true;
+        break;
+      case "--since": {
+        const v = value();
+        const ts = /^\d+$/.test(v) ? Number(v) : Date.parse(v);
+        if (!Number.isFinite(ts)) throw new Error(`Invalid --since: ${v}`);
+        opts.since = ts;
+        break;
+      }
+      case "--wallet":
+        opts.wallets.push(
+          ...value()
+            .split(",")
+            .map((w) => w.trim())
+            .filter(Boolean)
+        );
+        break;
+      case "--min-usd": {
+        const v = Number(value());
+        if (!Number.isFinite(v) || v < 0) throw new Error(`Invalid --min-usd: ${argv[i]}`);
+        opts.minUsd = v;
+        break;
+      }
+      case "--format": {
+        const v = value();
+        if (v !== "pretty" && v !== "ndjson") throw new Error(`Invalid --format: ${v} (pretty or ndjson)`);
+        opts.format = v;
+        break;
+      }
+      case "--ndjson":
+        opts.format = "ndjson";
+        break;
+      case "--tts":
+        opts.tts = value();
+        break;
+      default:
+        throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+  return opts;
+}
+
+// Runs the command with the text as its last argument, one utterance at a time
+function createCommandSpeaker(command: string) {
+  const [bin, ...args] = command.split(/\s+/).filter(Boolean);
+  let queue = Promise.resolve();
+
+  function run(text: string) {
+    return new Promise<void>((resolve) => {
+      const child = spawn(bin, [...args, text], { stdio: ["ignore", "ignore", "inherit"] });
+      child.on("error", (err) => {
+        console.error(`[tts] ${bin}: ${err.message}`);
+        resolve();
+      });
+      child.on("exit", () => resolve());
+    });
+  }
+
+  return {
+    speak(text: string) {
+      queue = queue.then(() => run(text));
+    },
+    drain() {
+      return queue;
+    },
+  };
+}
+
+function print(e: TradeEvent, opts: Options) {
+  if (opts.format === "ndjson") {
+    process.stdout.write(JSON.stringify(e) + "\n");
+    return;
+  }
+  const line = renderTemplate(PRETTY_TEMPLATE, templateValues(e, DEFAULT_ANNOUNCEMENT_SETTINGS, "text"));
+  process.stdout.write(`${line}${e.unusual ? "  [unusual]" : ""}\n`);
+}
+
+async function main() {
+  const opts = parseArgs(process.argv.slice(2));
+  const filter: StreamFilter = { minUsd: opts.minUsd };
+  const wanted = opts.wallets.map((w) => w.toLowerCase());
+  const speaker = opts.tts ? createCommandSpeaker(opts.tts) : null;
+
+  const options = schedulerOptionsFromEnv();
+  const scheduler = createWalletScheduler(options);
+  const registry = createWalletRegistry(createManagedWalletSource(), Number(process.env.WALLETS_REFRESH_MS || "60000"));
+  const cursor = createTradeCursor();
+  cursor.setFloor(opts.since !== undefined ? opts.since - 1 : opts.once ? 0 : Date.now());
+  const concurrency = Math.max(1, Number(process.env.POLL_CONCURRENCY) || 8);
+
+  async function walletsToPoll(): Promise<TrackedWallet[]> {
+    if (!wanted.length) return registry.get();
+    // an untracked --wallet still works, named by its address
+    const tracked = await registry.get().catch(() => [] as TrackedWallet[]);
+    return wanted.map((addr) => tracked.find((w) => w.wallet.toLowerCase() === addr) ?? { trader: addr, wallet: addr });
+  }
+
+  // resolves to how many wallets were due and how many of them were fetched
+  async function pass(all: boolean) {
+    const wallets = await walletsToPoll();
+    // --once fetches everything; otherwise only wallets whose schedule says they're due
+    const dueSet = new Set(all ? wallets.map((w) => w.wallet) : scheduler.due(wallets.map((w) => w.wallet)));
+    const due = wallets.filter((w) => dueSet.has(w.wallet));
+
+    const fetched = await mapWithConcurrency(due, concurrency, async (w) => {
+      if (!all && scheduler.isPaused()) return null;
+      try {
+        return { ...w, trades: await fetchLatestTradesForWallet(w.wallet, 25) };
+      } catch (err) {
+        scheduler.recordError(w.wallet, err);
+        console.error(`[tracker] ${w.trader}: ${String((err as Error)?.message || err)}`);
+        return null;
+      }
+    });
+
+    const events: TradeEvent[] = [];
+    for (const w of fetched) {
+      if (!w) continue;
+      const taken = await cursor.take(w, w.trades);
+      scheduler.recordSuccess(w.wallet, taken.fresh > 0);
+      events.push(...taken.events);
+    }
+
+    // oldest first, like the page's log
+    events.sort((a, b) => a.timestampMs - b.timestampMs);
+    for (const e of events) {
+      if (!matchesFilter(e, filter)) continue;
+      print(e, opts);
+      if (speaker && !e.muted) speaker.speak(renderEvent(e, DEFAULT_ANNOUNCEMENT_SETTINGS, "speech"));
+    }
+    return { due: due.length, fetched: fetched.filter(Boolean).length };
+  }
+
+  if (opts.once) {
+    const { due, fetched } = await pass(true);
+    await speaker?.drain();
+    if (due > 0 && fetched === 0) {
+      console.error(`[tracker] no wallet could be fetched (${due} tried)`);
+      process.exitCode = 1;
+    }
+    return;
+  }
+
+  console.error(`[tracker] polling every ${options.baseIntervalMs}ms; Ctrl-C to stop`);
+  // eslint-disable-next-line no-constant-condition
+  while (true) {
+    try {
+      await pass(false);
+    } catch (err) {
+      console.error("[tracker] poll pass failed", err);
+    }
+    await new Promise((r) => setTimeout(r, options.baseIntervalMs));
+  }
+}
+
+main().catch((err) => {
+  console.error(err?.message || err);
+  process.exit(1);
+});